@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createBatchArchive, parseBatchRequest } from "@/lib/batch";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "Invalid request body." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseBatchRequest(body);
+  if ("error" in parsed) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: parsed.error },
+      { status: 400 },
+    );
+  }
+
+  // Each post costs as much as a single download would
+  const limited = await enforceRateLimit(request, "api", parsed.options.urls.length);
+  if (limited) return limited;
+
+  const batch = createBatchArchive(parsed.options);
+  return new NextResponse(batch.body, {
+    headers: {
+      "Content-Type": batch.contentType,
+      "Content-Disposition": `attachment; filename="${batch.filename}"`,
+    },
+  });
+}
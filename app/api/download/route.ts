@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Readable } from "stream";
-import archiver from "archiver";
-import { fetchPostMedia, normalizePostUrl, UpstreamError } from "@/lib/instagram";
-import { isAllowedProxyUrl } from "@/lib/instagram-cdn";
-import type { ApiResponse, MediaItem } from "@/lib/types";
+import { SessionError, UpstreamError } from "@/lib/instagram";
+import { InvalidRequestError } from "@/lib/errors";
+import { parseDownloadRequest, prepareDownload } from "@/lib/downloads";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
-  let body: { url?: string };
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  let body: unknown;
   try {
     body = await request.json();
   } catch {
@@ -16,104 +19,35 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!body.url || typeof body.url !== "string") {
+  const parsed = parseDownloadRequest(body);
+  if ("error" in parsed) {
     return NextResponse.json<ApiResponse>(
-      { status: "error", items: [], error: "Post URL is required." },
+      { status: "error", items: [], error: parsed.error },
       { status: 400 },
     );
   }
 
   try {
-    normalizePostUrl(body.url);
+    const download = await prepareDownload(parsed.options);
+    const headers = new Headers({
+      "Content-Type": download.contentType,
+      "Content-Disposition": `attachment; filename="${download.filename}"`,
+    });
+    if (download.size !== undefined) headers.set("Content-Length", String(download.size));
+    return new NextResponse(download.body, { headers });
   } catch (err) {
-    return NextResponse.json<ApiResponse>(
-      { status: "error", items: [], error: err instanceof Error ? err.message : "Invalid URL." },
-      { status: 400 },
-    );
-  }
-
-  try {
-    const result = await fetchPostMedia(body.url);
-    if (result.items.length === 0) {
+    if (err instanceof InvalidRequestError) {
       return NextResponse.json<ApiResponse>(
-        { status: "error", items: [], error: "No media available for download." },
+        { status: "error", items: [], error: err.message },
         { status: 400 },
       );
     }
-
-    const filenames = buildFilenames(result.items, result.meta);
-
-    // Single item: stream directly
-    if (result.items.length === 1) {
-      const item = result.items[0];
-      if (!isAllowedProxyUrl(item.url)) {
-        return NextResponse.json<ApiResponse>(
-          { status: "error", items: [], error: "Invalid media URL." },
-          { status: 400 },
-        );
-      }
-      const upstream = await fetch(item.url);
-      if (!upstream.ok || !upstream.body) {
-        return NextResponse.json<ApiResponse>(
-          { status: "error", items: [], error: "Failed to fetch media for download." },
-          { status: 502 },
-        );
-      }
-      return new NextResponse(upstream.body, {
-        headers: {
-          "Content-Type": upstream.headers.get("content-type") ?? "application/octet-stream",
-          "Content-Disposition": `attachment; filename="${filenames[0]}"`,
-        },
-      });
+    if (err instanceof SessionError) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: err.message },
+        { status: 503 },
+      );
     }
-
-    // Multiple items: stream as ZIP
-    const zipName = buildZipName(result.meta);
-    const archive = archiver("zip", { zlib: { level: 6 } });
-
-    const stream = new ReadableStream({
-      start(controller) {
-        const nodeStream = new Readable({
-          read() {},
-        });
-
-        archive.on("data", (chunk: Buffer) => {
-          controller.enqueue(chunk);
-        });
-        archive.on("end", () => {
-          controller.close();
-        });
-        archive.on("error", (err: Error) => {
-          controller.error(err);
-        });
-
-        // Pipe is not used — we use event-based approach for Web Streams compatibility
-        void nodeStream;
-
-        (async () => {
-          for (let i = 0; i < result.items.length; i++) {
-            const item = result.items[i];
-            if (!isAllowedProxyUrl(item.url)) { archive.abort(); return; }
-            const response = await fetch(item.url);
-            if (!response.ok || !response.body) {
-              archive.abort();
-              return;
-            }
-            const nodeReadable = Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
-            archive.append(nodeReadable, { name: filenames[i] });
-          }
-          await archive.finalize();
-        })();
-      },
-    });
-
-    return new NextResponse(stream, {
-      headers: {
-        "Content-Type": "application/zip",
-        "Content-Disposition": `attachment; filename="${zipName}"`,
-      },
-    });
-  } catch (err) {
     if (err instanceof UpstreamError) {
       return NextResponse.json<ApiResponse>(
         { status: "error", items: [], error: err.message },
@@ -127,49 +61,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function buildFilenames(items: MediaItem[], meta?: ApiResponse["meta"]): string[] {
-  const username = safeSegment(meta?.username ?? "instagram");
-  const dateOrCode = meta?.postTimestamp
-    ? formatTimestampForFilename(meta.postTimestamp)
-    : safeSegment(meta?.shortcode ?? "post");
-
-  if (items.length === 1) {
-    const ext = getExtension(items[0].url, items[0].type);
-    return [`${username}_${dateOrCode}.${ext}`];
-  }
-
-  return items.map((item, index) => {
-    const ext = getExtension(item.url, item.type);
-    return `${username}_${dateOrCode}_${index + 1}.${ext}`;
-  });
-}
-
-function buildZipName(meta?: ApiResponse["meta"]): string {
-  const username = safeSegment(meta?.username ?? "instagram");
-  const shortcode = safeSegment(meta?.shortcode ?? "post");
-  return `${username}_post_${shortcode}.zip`;
-}
-
-function getExtension(url: string, type: "image" | "video"): string {
-  try {
-    const pathname = new URL(url).pathname;
-    const segment = pathname.split("/").pop() ?? "";
-    const ext = segment.split(".").pop();
-    if (ext && ext.length <= 5) return ext;
-  } catch { /* fall through */ }
-  return type === "video" ? "mp4" : "jpg";
-}
-
-function safeSegment(value: string): string {
-  const cleaned = value.replace(/\./g, "_").replace(/[^a-zA-Z0-9_-]+/g, "_");
-  return cleaned.length > 0 ? cleaned : "instagram";
-}
-
-function formatTimestampForFilename(timestamp: number): string {
-  const d = new Date(timestamp);
-  const pad = (n: number) => String(n).padStart(2, "0");
-  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
-  const time = `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`;
-  return `${date}T${time}.000Z`;
-}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteHistoryEntry, searchHistory } from "@/lib/history";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+const MAX_PAGE_SIZE = 200;
+
+export async function GET(request: NextRequest) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  const params = request.nextUrl.searchParams;
+  const limit = parseCount(params.get("limit"));
+  const offset = parseCount(params.get("offset"));
+  if (limit === null || offset === null || (limit !== undefined && (limit === 0 || limit > MAX_PAGE_SIZE))) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: `Invalid paging; limit must be between 1 and ${MAX_PAGE_SIZE}.` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { entries, total } = await searchHistory({ query: params.get("q") ?? undefined, limit, offset });
+    return NextResponse.json<ApiResponse>({ status: "ok", items: [], error: null, history: entries, historyTotal: total });
+  } catch (err) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: err instanceof Error ? err.message : "Could not read history." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "History entry id is required." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!(await deleteHistoryEntry(id))) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: "No such history entry." },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json<ApiResponse>({ status: "ok", items: [], error: null });
+  } catch (err) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: err instanceof Error ? err.message : "Could not update history." },
+      { status: 500 },
+    );
+  }
+}
+
+function parseCount(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, subscribeToJob } from "@/lib/jobs";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse, JobEvent } from "@/lib/types";
+
+// Comment lines keep idle proxies from closing the stream while a slow item downloads
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Server-Sent Events feed of a job's progress. Every event so far is
+ * replayed first (or those after Last-Event-ID, when EventSource
+ * reconnects); the stream ends after `done` or `failed`.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  const { id } = await params;
+  if (!getJob(id)) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "No such job, or it has expired." },
+      { status: 404 },
+    );
+  }
+
+  const lastEventId = Number(request.headers.get("last-event-id"));
+  const afterId = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let stopped = false;
+      let unsubscribe: (() => void) | null = null;
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), HEARTBEAT_MS);
+      stop = () => {
+        stopped = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+      };
+
+      const send = (event: JobEvent, eventId: number) => {
+        if (stopped) return;
+        controller.enqueue(encoder.encode(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (event.type === "done" || event.type === "failed") {
+          stop();
+          controller.close();
+        }
+      };
+
+      unsubscribe = subscribeToJob(id, afterId, send);
+      if (stopped) {
+        // The replay already reached the end
+        unsubscribe?.();
+      } else if (!unsubscribe) {
+        // Expired between the lookup above and now
+        stop();
+        controller.close();
+      }
+      request.signal.addEventListener("abort", () => stop());
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      // Stops nginx from buffering the stream until it ends
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, openJobFile } from "@/lib/jobs";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "No such job, or it has expired." },
+      { status: 404 },
+    );
+  }
+
+  const file = openJobFile(id);
+  if (!file) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: job.error ?? "The download is not finished yet." },
+      { status: 409 },
+    );
+  }
+  return new NextResponse(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Content-Length": String(file.size),
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  const job = getJob((await params).id);
+  if (!job) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "No such job, or it has expired." },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json<ApiResponse>({ status: "ok", items: [], error: null, job });
+}
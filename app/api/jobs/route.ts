@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createJob, JobLimitError, parseJobRequest } from "@/lib/jobs";
+import { enforceRateLimit, getClientKey } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+/**
+ * Starts a background download. The body is either a /api/download request
+ * (`url`, ...) or a /api/batch one (`urls`, ...); progress is then followed
+ * at /api/jobs/:id/events and the file fetched from /api/jobs/:id/file.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "Invalid request body." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseJobRequest(body);
+  if ("error" in parsed) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: parsed.error },
+      { status: 400 },
+    );
+  }
+  const job = parsed.request;
+
+  // A batch costs as much as downloading each of its posts would
+  const limited = await enforceRateLimit(request, "api", job.kind === "batch" ? job.options.urls.length : 1);
+  if (limited) return limited;
+
+  try {
+    const snapshot = createJob(job, getClientKey(request.headers));
+    return NextResponse.json<ApiResponse>(
+      { status: "ok", items: [], error: null, job: snapshot },
+      { status: 202, headers: { Location: `/api/jobs/${snapshot.id}` } },
+    );
+  } catch (err) {
+    if (err instanceof JobLimitError) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: err.message },
+        { status: err.status, headers: { "Retry-After": "60" } },
+      );
+    }
+    const message = err instanceof Error ? err.message : "Unexpected error.";
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: message },
+      { status: 500 },
+    );
+  }
+}
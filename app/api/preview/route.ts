@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchPostMedia, normalizePostUrl, UpstreamError } from "@/lib/instagram";
+import { fetchPostMedia, normalizePostUrl, SessionError, UpstreamError } from "@/lib/instagram";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import { DiagnosticsRecorder, wantsDiagnostics } from "@/lib/diagnostics";
+import { recordPreview } from "@/lib/history";
 import type { ApiResponse } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
   let body: { url?: string };
   try {
     body = await request.json();
@@ -20,8 +26,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  let postUrl: string;
   try {
-    normalizePostUrl(body.url);
+    postUrl = normalizePostUrl(body.url).url;
   } catch (err) {
     return NextResponse.json<ApiResponse>(
       { status: "error", items: [], error: err instanceof Error ? err.message : "Invalid URL." },
@@ -29,25 +36,34 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const diagnostics = wantsDiagnostics(request) ? new DiagnosticsRecorder() : undefined;
   try {
-    const result = await fetchPostMedia(body.url);
+    const result = await fetchPostMedia(body.url, { diagnostics });
+    await recordPreview(postUrl, result);
     return NextResponse.json<ApiResponse>({
       status: "ok",
       items: result.items,
       error: null,
       meta: result.meta,
+      diagnostics: diagnostics?.toJSON(),
     });
   } catch (err) {
+    if (err instanceof SessionError) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: err.message, diagnostics: diagnostics?.toJSON() },
+        { status: 503 },
+      );
+    }
     if (err instanceof UpstreamError) {
       return NextResponse.json<ApiResponse>(
-        { status: "error", items: [], error: err.message },
+        { status: "error", items: [], error: err.message, diagnostics: diagnostics?.toJSON() },
         { status: 502 },
       );
     }
     const message = err instanceof Error ? err.message : "Unexpected error.";
     const status = message.toLowerCase().includes("invalid") ? 400 : 500;
     return NextResponse.json<ApiResponse>(
-      { status: "error", items: [], error: message },
+      { status: "error", items: [], error: message, diagnostics: diagnostics?.toJSON() },
       { status },
     );
   }
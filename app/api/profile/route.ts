@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchProfilePosts, normalizeProfileUrl, SessionError, UpstreamError } from "@/lib/instagram";
+import { enforceRateLimit } from "@/lib/rate-limit";
+import type { ApiResponse } from "@/lib/types";
+
+export async function POST(request: NextRequest) {
+  const limited = await enforceRateLimit(request, "api");
+  if (limited) return limited;
+
+  let body: { url?: string; cursor?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "Invalid request body." },
+      { status: 400 },
+    );
+  }
+
+  if (!body.url || typeof body.url !== "string") {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "Profile URL is required." },
+      { status: 400 },
+    );
+  }
+
+  if (body.cursor !== undefined && typeof body.cursor !== "string") {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: "Invalid profile cursor." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    normalizeProfileUrl(body.url);
+  } catch (err) {
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: err instanceof Error ? err.message : "Invalid URL." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const profile = await fetchProfilePosts(body.url, { cursor: body.cursor });
+    return NextResponse.json<ApiResponse>({ status: "ok", items: [], error: null, profile });
+  } catch (err) {
+    if (err instanceof SessionError) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: err.message },
+        { status: 503 },
+      );
+    }
+    if (err instanceof UpstreamError) {
+      return NextResponse.json<ApiResponse>(
+        { status: "error", items: [], error: err.message },
+        { status: 502 },
+      );
+    }
+    const message = err instanceof Error ? err.message : "Unexpected error.";
+    const status = message.toLowerCase().includes("invalid") ? 400 : 500;
+    return NextResponse.json<ApiResponse>(
+      { status: "error", items: [], error: message },
+      { status },
+    );
+  }
+}
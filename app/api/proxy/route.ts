@@ -1,7 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { isAllowedProxyUrl } from "@/lib/instagram-cdn";
+import { httpClient } from "@/lib/http-client";
+import { fetchMedia, getMediaCache, type CachedMedia, type MediaCache } from "@/lib/media-cache";
+import { enforceRateLimit } from "@/lib/rate-limit";
+
+// Client headers that make seeking and resumed downloads work end to end
+const FORWARDED_REQUEST_HEADERS = ["range", "if-range", "if-none-match", "if-modified-since"];
+const PASSTHROUGH_RESPONSE_HEADERS = [
+  "content-type", "content-length", "content-range", "accept-ranges", "etag", "last-modified",
+];
 
 export async function GET(request: NextRequest) {
+  return proxy(request, "GET");
+}
+
+export async function HEAD(request: NextRequest) {
+  return proxy(request, "HEAD");
+}
+
+async function proxy(request: NextRequest, method: "GET" | "HEAD") {
+  const limited = await enforceRateLimit(request, "proxy");
+  if (limited) return limited;
+
   const rawUrl = request.nextUrl.searchParams.get("url");
   if (!rawUrl) {
     return new NextResponse("Missing url parameter.", { status: 400 });
@@ -11,18 +31,123 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const upstream = await fetch(rawUrl, { headers: { "User-Agent": "Mozilla/5.0" } });
-    if (!upstream.ok || !upstream.body) {
+    const cache = getMediaCache();
+    const cached = cache ? await cache.get(rawUrl) : null;
+    if (cache && cached) return serveCached(request, method, cache, cached);
+
+    // Whole-body GETs (including the `bytes=0-` a <video> opens with) fill the cache
+    const range = request.headers.get("range");
+    if (cache && method === "GET" && (!range || /^bytes=0-\s*$/.test(range))) {
+      const upstream = await fetchMedia(rawUrl);
+      if (!upstream.ok || !upstream.body) {
+        return new NextResponse("Failed to fetch media.", { status: 502 });
+      }
+      const headers = buildResponseHeaders(upstream);
+      // `bytes=0-` still wants a 206 for the whole file, which needs its length
+      const length = Number(headers.get("content-length"));
+      if (range && Number.isInteger(length) && length > 0) {
+        headers.set("Content-Range", `bytes 0-${length - 1}/${length}`);
+        headers.set("Accept-Ranges", "bytes");
+        return new NextResponse(upstream.body, { status: 206, headers });
+      }
+      return new NextResponse(upstream.body, { status: 200, headers });
+    }
+
+    const headers = new Headers();
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+    const upstream = await httpClient(rawUrl, { method, headers });
+    const passthrough = buildResponseHeaders(upstream);
+
+    if (upstream.status === 304 || upstream.status === 416) {
+      return new NextResponse(null, { status: upstream.status, headers: passthrough });
+    }
+    if (!upstream.ok || (method === "GET" && !upstream.body)) {
       return new NextResponse("Failed to fetch media.", { status: 502 });
     }
 
-    return new NextResponse(upstream.body, {
-      headers: {
-        "Content-Type": upstream.headers.get("content-type") ?? "application/octet-stream",
-        "Cache-Control": "public, max-age=600",
-      },
+    return new NextResponse(method === "HEAD" ? null : upstream.body, {
+      status: upstream.status === 206 ? 206 : 200,
+      headers: passthrough,
     });
   } catch {
     return new NextResponse("Failed to fetch media.", { status: 502 });
   }
 }
+
+function serveCached(request: NextRequest, method: "GET" | "HEAD", cache: MediaCache, entry: CachedMedia) {
+  const headers = new Headers({
+    "Content-Type": entry.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "public, max-age=600",
+  });
+  if (entry.etag) headers.set("ETag", entry.etag);
+  if (entry.lastModified) headers.set("Last-Modified", entry.lastModified);
+
+  if (isNotModified(request, entry)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const range = matchesIfRange(request, entry) ? parseRange(request.headers.get("range"), entry.size) : null;
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${entry.size}`);
+    return new NextResponse(null, { status: 416, headers });
+  }
+  if (range) {
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${entry.size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    const body = method === "HEAD" ? null : cache.read(entry, range.start, range.end);
+    return new NextResponse(body, { status: 206, headers });
+  }
+
+  headers.set("Content-Length", String(entry.size));
+  return new NextResponse(method === "HEAD" ? null : cache.read(entry), { status: 200, headers });
+}
+
+function isNotModified(request: NextRequest, entry: CachedMedia): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    if (!entry.etag) return false;
+    const tags = ifNoneMatch.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+    return tags.includes("*") || tags.includes(entry.etag.replace(/^W\//, ""));
+  }
+  const ifModifiedSince = Date.parse(request.headers.get("if-modified-since") ?? "");
+  const lastModified = Date.parse(entry.lastModified ?? "");
+  return Number.isFinite(ifModifiedSince) && Number.isFinite(lastModified) && lastModified <= ifModifiedSince;
+}
+
+// A stale If-Range means the client's partial copy is of another version: send it all
+function matchesIfRange(request: NextRequest, entry: CachedMedia): boolean {
+  const ifRange = request.headers.get("if-range");
+  if (!ifRange) return true;
+  return ifRange === entry.etag || ifRange === entry.lastModified;
+}
+
+// Single `bytes=` ranges only; multipart responses aren't worth supporting here
+function parseRange(header: string | null, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "unsatisfiable";
+  return { start, end };
+}
+
+function buildResponseHeaders(upstream: Response): Headers {
+  const headers = new Headers({ "Cache-Control": "public, max-age=600" });
+  for (const name of PASSTHROUGH_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  // fetch() decodes compressed bodies, so the upstream length no longer matches
+  if (upstream.headers.has("content-encoding")) headers.delete("content-length");
+  if (!headers.has("content-type")) headers.set("Content-Type", "application/octet-stream");
+  return headers;
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { ApiResponse, HistoryEntry } from "@/lib/types";
+import { readDownloadPreferences, saveDownload } from "@/lib/save-download";
+import { formatBytes, formatDateTime } from "@/lib/format";
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+function buildProxySrc(rawUrl: string): string {
+  return `/api/proxy?url=${encodeURIComponent(rawUrl)}`;
+}
+
+export default function Library() {
+  const [query, setQuery] = useState("");
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (search: string, offset = 0) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (search.trim()) params.set("q", search.trim());
+      const res = await fetch(`/api/history?${params}`);
+      const data = (await res.json()) as ApiResponse;
+      if (!res.ok || data.status === "error") throw new Error(data.error ?? "Could not load the library.");
+      setEntries((current) => (offset > 0 ? [...current, ...(data.history ?? [])] : data.history ?? []));
+      setTotal(data.historyTotal ?? 0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the library.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => void load(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleDownload = async (entry: HistoryEntry) => {
+    setBusyId(entry.id);
+    setError(null);
+    try {
+      const res = await fetch("/api/download", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: entry.url, ...readDownloadPreferences() }),
+      });
+      await saveDownload(res, entry.itemCount > 1 ? "instagram_bundle.zip" : "instagram_media");
+      // The download bumped the entry's count and time; show it
+      await load(query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Download failed.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    setBusyId(entry.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/history?id=${encodeURIComponent(entry.id)}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = (await res.json()) as ApiResponse;
+        throw new Error(data.error ?? "Could not remove the entry.");
+      }
+      setEntries((current) => current.filter((value) => value.id !== entry.id));
+      setTotal((current) => current - 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not remove the entry.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-8 px-6 py-12">
+      <header className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-2xl bg-gradient-to-br from-brand-500 via-rose-400 to-amber-300" />
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Library</h1>
+          <p className="text-sm text-slate-500">Posts already previewed or archived</p>
+        </div>
+        <Link href="/" className="ml-auto text-sm font-semibold text-slate-500 hover:text-slate-700">
+          Back to downloader
+        </Link>
+      </header>
+
+      <section className="flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white p-6">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by username or shortcode"
+          className="w-full rounded-xl border border-slate-200 px-4 py-3 text-sm text-slate-900 outline-none focus:border-slate-400"
+        />
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{error}</div>
+        )}
+
+        {!loading && entries.length === 0 && !error && (
+          <p className="text-sm text-slate-500">
+            {query.trim() ? "Nothing matches that search." : "Nothing here yet. Previewed and downloaded posts show up here."}
+          </p>
+        )}
+
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex gap-4 rounded-2xl border border-slate-200 p-4">
+            <div className="h-20 w-20 shrink-0 overflow-hidden rounded-xl bg-slate-100">
+              {entry.thumbnail && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={buildProxySrc(entry.thumbnail)}
+                  alt=""
+                  className="h-full w-full object-cover"
+                  loading="lazy"
+                  // Signed thumbnail URLs expire after a while; fall back to the blank tile
+                  onError={(e) => {
+                    e.currentTarget.style.visibility = "hidden";
+                  }}
+                />
+              )}
+            </div>
+            <div className="flex min-w-0 flex-1 flex-col gap-1 text-sm text-slate-600">
+              <p className="font-semibold text-slate-800">
+                {entry.username ? `@${entry.username}` : "Unknown user"}
+                {entry.kind !== "post" && (
+                  <span className="ml-2 rounded-full bg-brand-50 px-2 py-0.5 text-xs font-semibold text-brand-600">
+                    {entry.kind === "story" ? "Story" : "Highlight"}
+                  </span>
+                )}
+              </p>
+              <a href={entry.url} target="_blank" rel="noreferrer" className="truncate text-xs text-slate-500 hover:underline">
+                {entry.shortcode ?? entry.url}
+              </a>
+              <p className="text-xs text-slate-500">
+                {entry.itemCount} {entry.itemCount === 1 ? "item" : "items"} &middot; {formatBytes(entry.totalBytes)}
+              </p>
+              <p className="text-xs text-slate-500">
+                {entry.downloadedAt
+                  ? `Downloaded ${entry.downloadCount} ${entry.downloadCount === 1 ? "time" : "times"}, last ${formatDateTime(entry.downloadedAt)}`
+                  : "Not downloaded yet"}
+                {entry.previewedAt && ` \u00b7 Previewed ${formatDateTime(entry.previewedAt)}`}
+              </p>
+              {entry.filenames.length > 0 && (
+                <details className="text-xs text-slate-500">
+                  <summary className="cursor-pointer select-none">Files</summary>
+                  <ul className="mt-1 font-mono">
+                    {entry.filenames.map((name) => (
+                      <li key={name} className="truncate">{name}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+            <div className="flex shrink-0 flex-col gap-2">
+              <button
+                onClick={() => void handleDownload(entry)}
+                disabled={busyId !== null}
+                className="rounded-xl border border-slate-200 px-3 py-2 text-xs font-semibold text-slate-900 hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400"
+              >
+                {busyId === entry.id ? "Working..." : "Download again"}
+              </button>
+              <button
+                onClick={() => void handleDelete(entry)}
+                disabled={busyId !== null}
+                className="text-xs text-slate-500 hover:text-rose-600 disabled:cursor-not-allowed"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {entries.length < total && (
+          <button
+            onClick={() => void load(query, entries.length)}
+            disabled={loading}
+            className="self-center text-sm font-semibold text-slate-500 hover:text-slate-700 disabled:text-slate-300"
+          >
+            {loading ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,31 +1,144 @@
 "use client";
 
-import { useState } from "react";
-import type { ApiResponse, MediaItem } from "@/lib/types";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { ApiResponse, JobSnapshot, MediaItem, ProfileResult } from "@/lib/types";
+import type { ArchiveFormat } from "@/lib/archive-stream";
+import { isProfileInput } from "@/lib/url-patterns";
 import UrlInput from "@/components/url-input";
 import MediaPreview from "@/components/media-preview";
 import DownloadButtons from "@/components/download-buttons";
+import ProfileGrid from "@/components/profile-grid";
+import FilenameTemplateInput from "@/components/filename-template-input";
+import Lightbox from "@/components/lightbox";
+import { buildFilenames, validateFilenameTemplate } from "@/lib/filenames";
+import {
+  ARCHIVE_FORMAT_KEY,
+  describeJob,
+  FILENAME_TEMPLATE_KEY,
+  runDownloadJob,
+  saveDownload,
+  ZIP_TEMPLATE_KEY,
+} from "@/lib/save-download";
 
 type Status = "idle" | "fetching" | "ready" | "error" | "downloading";
 
+
+const ARCHIVE_FORMAT_OPTIONS: Array<{ value: ArchiveFormat; label: string; description: string }> = [
+  { value: "zip", label: "ZIP", description: "ZIP (compressed)" },
+  { value: "zip-store", label: "ZIP", description: "ZIP (no compression, shows progress)" },
+  { value: "tar", label: "TAR", description: "TAR" },
+  { value: "tar.gz", label: "TAR.GZ", description: "TAR.GZ" },
+];
+
 export default function Home() {
   const [url, setUrl] = useState("");
   const [items, setItems] = useState<MediaItem[]>([]);
   const [meta, setMeta] = useState<ApiResponse["meta"] | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [embedMetadata, setEmbedMetadata] = useState(false);
+  const [filenameTemplate, setFilenameTemplate] = useState("");
+  const [zipTemplate, setZipTemplate] = useState("");
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>("zip");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [job, setJob] = useState<JobSnapshot | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [profile, setProfile] = useState<ProfileResult | null>(null);
+  const [profileSelected, setProfileSelected] = useState<string[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [status, setStatus] = useState<Status>("idle");
   const [error, setError] = useState<string | null>(null);
 
+  const audioCount = selected.filter((index) => items[index]?.dash?.audio).length;
+
+  // Templates are remembered per browser; read after mount so SSR markup matches
+  useEffect(() => {
+    setFilenameTemplate(localStorage.getItem(FILENAME_TEMPLATE_KEY) ?? "");
+    setZipTemplate(localStorage.getItem(ZIP_TEMPLATE_KEY) ?? "");
+    const storedFormat = ARCHIVE_FORMAT_OPTIONS.find((option) => option.value === localStorage.getItem(ARCHIVE_FORMAT_KEY));
+    if (storedFormat) setArchiveFormat(storedFormat.value);
+  }, []);
+
+  const handleFilenameTemplateChange = (value: string) => {
+    setFilenameTemplate(value);
+    localStorage.setItem(FILENAME_TEMPLATE_KEY, value);
+  };
+
+  const handleZipTemplateChange = (value: string) => {
+    setZipTemplate(value);
+    localStorage.setItem(ZIP_TEMPLATE_KEY, value);
+  };
+
+  const handleArchiveFormatChange = (value: ArchiveFormat) => {
+    setArchiveFormat(value);
+    localStorage.setItem(ARCHIVE_FORMAT_KEY, value);
+  };
+
   const handleFetch = async () => {
+    const target = url.trim();
+    setProfile(null);
+    setProfileSelected([]);
+    if (isProfileInput(target)) {
+      await fetchProfile(target);
+      return;
+    }
+    await fetchPreview(target);
+  };
+
+  const handlePreviewPost = (postUrl: string) => {
+    setUrl(postUrl);
+    void fetchPreview(postUrl);
+  };
+
+  const fetchProfile = async (profileUrl: string, cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setStatus("fetching");
+      setItems([]);
+      setMeta(null);
+      setSelected([]);
+    }
+    setError(null);
+
+    try {
+      const res = await fetch("/api/profile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: profileUrl, cursor }),
+      });
+      const data = (await res.json()) as ApiResponse;
+      if (!res.ok || data.status === "error" || !data.profile) {
+        setStatus("error");
+        setError(data.error ?? "Something went wrong.");
+        return;
+      }
+      const page = data.profile;
+      setProfile((current) =>
+        cursor && current ? { ...page, posts: [...current.posts, ...page.posts] } : page,
+      );
+      setStatus("ready");
+    } catch {
+      setStatus("error");
+      setError("Could not reach the server. Check your connection or try again.");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const fetchPreview = async (postUrl: string) => {
     setStatus("fetching");
     setError(null);
     setItems([]);
     setMeta(null);
+    setSelected([]);
+    setLightboxIndex(null);
 
     try {
       const res = await fetch("/api/preview", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({ url: postUrl }),
       });
       const data = (await res.json()) as ApiResponse;
       if (!res.ok || data.status === "error") {
@@ -35,6 +148,7 @@ export default function Home() {
       }
       setItems(data.items ?? []);
       setMeta(data.meta ?? null);
+      setSelected((data.items ?? []).map((_, index) => index));
       setStatus("ready");
     } catch {
       setStatus("error");
@@ -42,47 +156,102 @@ export default function Home() {
     }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (variant?: "audio", indices = selected) => {
     setStatus("downloading");
     setError(null);
+    setProgress(null);
+    setJob(null);
 
-    try {
-      const res = await fetch("/api/download", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: url.trim() }),
-      });
+    const body = {
+      url: url.trim(),
+      indices: indices.length < items.length ? indices : undefined,
+      embedMetadata,
+      variant,
+      filenameTemplate: filenameTemplate.trim() || undefined,
+      zipTemplate: zipTemplate.trim() || undefined,
+      format: archiveFormat,
+    };
+    const fileCount = variant === "audio" ? audioCount : indices.length;
 
-      if (!res.ok) {
-        const data = (await res.json()) as ApiResponse;
-        throw new Error(data.error ?? "Download failed.");
+    try {
+      // Archives are built in the background so a long one survives a dropped connection
+      if (fileCount > 1) {
+        await runDownloadJob(body, setJob);
+      } else {
+        const res = await fetch("/api/download", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        await saveDownload(res, "instagram_media", setProgress);
       }
+      setStatus("ready");
+    } catch (err) {
+      setStatus("error");
+      setError(err instanceof Error ? err.message : "Download failed.");
+    } finally {
+      setJob(null);
+    }
+  };
 
-      const blob = await res.blob();
-      const header = res.headers.get("content-disposition");
-      const fallbackName = items.length > 1 ? "instagram_bundle.zip" : "instagram_media";
-      const filename = getFilenameFromHeader(header) ?? fallbackName;
-
-      const blobUrl = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = blobUrl;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      URL.revokeObjectURL(blobUrl);
+  const handleDownloadPosts = async () => {
+    if (!profile) return;
+    setStatus("downloading");
+    setError(null);
+    setJob(null);
 
+    try {
+      const urls = profile.posts
+        .filter((post) => profileSelected.includes(post.shortcode))
+        .map((post) => post.url);
+      await runDownloadJob({ urls, filenameTemplate: filenameTemplate.trim() || undefined }, setJob);
       setStatus("ready");
     } catch (err) {
       setStatus("error");
       setError(err instanceof Error ? err.message : "Download failed.");
+    } finally {
+      setJob(null);
     }
   };
 
+  const handleLoadMore = () => {
+    if (!profile?.nextCursor) return;
+    void fetchProfile(`https://www.instagram.com/${profile.username}/`, profile.nextCursor);
+  };
+
+  const handleToggleProfilePost = (shortcode: string) => {
+    setProfileSelected((current) =>
+      current.includes(shortcode) ? current.filter((value) => value !== shortcode) : [...current, shortcode],
+    );
+  };
+
+  const handleToggle = (index: number) => {
+    setSelected((current) =>
+      current.includes(index)
+        ? current.filter((value) => value !== index)
+        : [...current, index].sort((a, b) => a - b),
+    );
+  };
+
+  const handleToggleAll = () => {
+    setSelected((current) => (current.length === items.length ? [] : items.map((_, index) => index)));
+  };
+
+  // Same names the download route gives each item, so the lightbox can show them
+  const previewFilenames = () => {
+    const template = filenameTemplate.trim();
+    const usable = template && validateFilenameTemplate(template) === null ? template : undefined;
+    return buildFilenames(items, meta ?? undefined, usable);
+  };
+
   const handleReset = () => {
     setUrl("");
     setItems([]);
     setMeta(null);
+    setSelected([]);
+    setProfile(null);
+    setProfileSelected([]);
+    setLightboxIndex(null);
     setStatus("idle");
     setError(null);
   };
@@ -96,6 +265,9 @@ export default function Home() {
             <h1 className="text-2xl font-bold text-slate-900">IG Vault</h1>
             <p className="text-sm text-slate-500">Instagram Media Downloader</p>
           </div>
+          <Link href="/library" className="ml-auto text-sm font-semibold text-slate-500 hover:text-slate-700">
+            Library
+          </Link>
         </div>
       </header>
 
@@ -114,14 +286,46 @@ export default function Home() {
           </div>
         )}
 
+        {status === "downloading" && job && (
+          <p className="mt-4 text-sm text-slate-500" aria-live="polite">
+            {describeJob(job)}
+          </p>
+        )}
+
         {items.length > 0 && (
           <div className="mt-6 flex items-center gap-3">
             <DownloadButtons
               itemCount={items.length}
-              onDownload={handleDownload}
+              selectedCount={selected.length}
+              audioCount={audioCount}
+              onDownload={() => handleDownload()}
+              onDownloadAudio={() => handleDownload("audio")}
               downloading={status === "downloading"}
+              progress={progress}
+              archiveLabel={ARCHIVE_FORMAT_OPTIONS.find((option) => option.value === archiveFormat)?.label}
               disabled={status !== "ready"}
             />
+            <select
+              value={archiveFormat}
+              onChange={(e) => handleArchiveFormatChange(e.target.value as ArchiveFormat)}
+              aria-label="Archive format"
+              className="rounded-lg border border-slate-200 px-2 py-2 text-sm text-slate-500"
+            >
+              {ARCHIVE_FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.description}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-500">
+              <input
+                type="checkbox"
+                checked={embedMetadata}
+                onChange={(e) => setEmbedMetadata(e.target.checked)}
+                className="h-4 w-4 accent-slate-900"
+              />
+              Embed post info in images
+            </label>
             <button
               onClick={handleReset}
               className="text-sm text-slate-500 hover:text-slate-700"
@@ -130,23 +334,60 @@ export default function Home() {
             </button>
           </div>
         )}
+
+        {(items.length > 0 || profile) && (
+          <FilenameTemplateInput
+            filenameTemplate={filenameTemplate}
+            zipTemplate={zipTemplate}
+            onFilenameTemplateChange={handleFilenameTemplateChange}
+            onZipTemplateChange={handleZipTemplateChange}
+          />
+        )}
       </section>
 
+      {profile && (
+        <section className="rounded-2xl border border-slate-200 bg-white p-6">
+          <ProfileGrid
+            profile={profile}
+            selected={profileSelected}
+            onToggle={handleToggleProfilePost}
+            onPreview={handlePreviewPost}
+            onLoadMore={handleLoadMore}
+            onDownloadSelected={handleDownloadPosts}
+            loadingMore={loadingMore}
+            downloading={status === "downloading"}
+          />
+        </section>
+      )}
+
       {items.length > 0 && (
         <section className="rounded-2xl border border-slate-200 bg-white p-6">
-          <MediaPreview items={items} meta={meta} />
+          <MediaPreview
+            items={items}
+            meta={meta}
+            selected={selected}
+            onToggle={handleToggle}
+            onToggleAll={handleToggleAll}
+            onOpen={setLightboxIndex}
+          />
         </section>
       )}
 
+      {lightboxIndex !== null && items[lightboxIndex] && (
+        <Lightbox
+          items={items}
+          index={lightboxIndex}
+          filenames={previewFilenames()}
+          onNavigate={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+          onDownload={(index) => handleDownload(undefined, [index])}
+          downloading={status === "downloading"}
+        />
+      )}
+
       <footer className="text-center text-xs text-slate-400">
         Personal use only. Respect content creators&apos; rights.
       </footer>
     </div>
   );
 }
-
-function getFilenameFromHeader(header: string | null): string | null {
-  if (!header) return null;
-  const match = /filename="?([^";]+)"?/i.exec(header);
-  return match?.[1] ?? null;
-}
@@ -2,23 +2,52 @@
 
 interface DownloadButtonsProps {
   itemCount: number;
+  selectedCount: number;
+  audioCount: number;
   onDownload: () => void;
+  onDownloadAudio: () => void;
   downloading: boolean;
+  /** Fraction of the download received, when the server announced its size. */
+  progress?: number | null;
+  archiveLabel?: string;
   disabled: boolean;
 }
 
-export default function DownloadButtons({ itemCount, onDownload, downloading, disabled }: DownloadButtonsProps) {
+export default function DownloadButtons({
+  itemCount,
+  selectedCount,
+  audioCount,
+  onDownload,
+  onDownloadAudio,
+  downloading,
+  progress,
+  archiveLabel = "ZIP",
+  disabled,
+}: DownloadButtonsProps) {
   if (itemCount === 0) return null;
 
-  const label = itemCount > 1 ? "Download ZIP" : "Download file";
+  const label =
+    selectedCount === itemCount
+      ? itemCount > 1 ? `Download ${archiveLabel}` : "Download file"
+      : selectedCount > 1 ? `Download ${selectedCount} selected (${archiveLabel})` : "Download selected file";
+
+  const buttonClass =
+    "rounded-xl border border-slate-200 bg-white px-5 py-3 text-sm font-semibold text-slate-900 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400";
 
   return (
-    <button
-      onClick={onDownload}
-      disabled={disabled || downloading}
-      className="rounded-xl border border-slate-200 bg-white px-5 py-3 text-sm font-semibold text-slate-900 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400"
-    >
-      {downloading ? "Downloading..." : label}
-    </button>
+    <>
+      <button
+        onClick={onDownload}
+        disabled={disabled || downloading || selectedCount === 0}
+        className={buttonClass}
+      >
+        {downloading ? `Downloading...${progress != null ? ` ${Math.floor(progress * 100)}%` : ""}` : label}
+      </button>
+      {audioCount > 0 && (
+        <button onClick={onDownloadAudio} disabled={disabled || downloading} className={buttonClass}>
+          {audioCount > 1 ? `Download audio (${audioCount})` : "Download audio"}
+        </button>
+      )}
+    </>
   );
 }
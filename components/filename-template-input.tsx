@@ -0,0 +1,50 @@
+"use client";
+
+import { DEFAULT_FILENAME_TEMPLATE } from "@/lib/filenames";
+
+interface FilenameTemplateInputProps {
+  filenameTemplate: string;
+  zipTemplate: string;
+  onFilenameTemplateChange: (value: string) => void;
+  onZipTemplateChange: (value: string) => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 px-3 py-2 font-mono text-xs text-slate-900 outline-none focus:border-slate-400";
+
+export default function FilenameTemplateInput({
+  filenameTemplate,
+  zipTemplate,
+  onFilenameTemplateChange,
+  onZipTemplateChange,
+}: FilenameTemplateInputProps) {
+  return (
+    <details className="mt-4 text-sm text-slate-500">
+      <summary className="cursor-pointer select-none">File naming</summary>
+      <div className="mt-3 flex flex-col gap-3">
+        <label className="flex flex-col gap-1">
+          File names
+          <input
+            value={filenameTemplate}
+            onChange={(e) => onFilenameTemplateChange(e.target.value)}
+            placeholder={DEFAULT_FILENAME_TEMPLATE}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          ZIP name
+          <input
+            value={zipTemplate}
+            onChange={(e) => onZipTemplateChange(e.target.value)}
+            placeholder="{username}_{kind}_{shortcode}"
+            className={inputClass}
+          />
+        </label>
+        <p className="text-xs text-slate-400">
+          Tokens: {"{username} {shortcode} {kind} {date:YYYY-MM-DD} {index} {count} {type} {width}x{height} {caption:30}"}.
+          Item tokens ({"{index} {type} {width} {height}"}) only apply to file names. Leave empty for the default.
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect } from "react";
+import type { MediaItem } from "@/lib/types";
+
+interface LightboxProps {
+  items: MediaItem[];
+  index: number;
+  /** Names the download will get, as built by `buildFilenames`. */
+  filenames?: string[];
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+  onDownload: (index: number) => void;
+  downloading: boolean;
+}
+
+function buildProxySrc(rawUrl: string): string {
+  if (!rawUrl) return "";
+  return `/api/proxy?url=${encodeURIComponent(rawUrl)}`;
+}
+
+const navButtonClass =
+  "absolute top-1/2 -translate-y-1/2 rounded-full bg-white/10 px-4 py-3 text-lg font-semibold text-white transition hover:bg-white/20 disabled:opacity-30";
+
+export default function Lightbox({
+  items,
+  index,
+  filenames,
+  onNavigate,
+  onClose,
+  onDownload,
+  downloading,
+}: LightboxProps) {
+  const item = items[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < items.length - 1;
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+        return;
+      }
+      // Arrow keys on a focused video seek it; leave those alone
+      if (event.target instanceof HTMLVideoElement) return;
+      if (event.key === "ArrowLeft" && hasPrevious) onNavigate(index - 1);
+      if (event.key === "ArrowRight" && hasNext) onNavigate(index + 1);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [index, hasPrevious, hasNext, onNavigate, onClose]);
+
+  useEffect(() => {
+    const previous = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = previous;
+    };
+  }, []);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Item ${index + 1} of ${items.length}`}
+      onClick={onClose}
+      className="fixed inset-0 z-50 flex flex-col bg-slate-950/90"
+    >
+      <div onClick={(e) => e.stopPropagation()} className="flex items-center gap-3 px-6 py-4 text-sm text-white">
+        <span className="font-semibold">
+          Item {index + 1} of {items.length}
+        </span>
+        {filenames?.[index] && <span className="truncate font-mono text-xs text-slate-300">{filenames[index]}</span>}
+        <button
+          onClick={() => onDownload(index)}
+          disabled={downloading}
+          className="ml-auto rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:text-slate-400"
+        >
+          {downloading ? "Downloading..." : "Download this item"}
+        </button>
+        <button onClick={onClose} aria-label="Close" className="rounded-xl px-3 py-2 text-lg hover:bg-white/10">
+          {"\u00d7"}
+        </button>
+      </div>
+
+      <div className="relative flex min-h-0 flex-1 items-center justify-center px-16 pb-8">
+        <div onClick={(e) => e.stopPropagation()} className="flex max-h-full max-w-full">
+          {item.type === "video" ? (
+            // Streamed through the proxy, which answers the Range requests seeking needs
+            <video
+              key={item.url}
+              src={buildProxySrc(item.url)}
+              poster={buildProxySrc(item.thumbnail)}
+              controls
+              autoPlay
+              playsInline
+              className="max-h-[80vh] max-w-full rounded-xl"
+            />
+          ) : (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              key={item.url}
+              src={buildProxySrc(item.url)}
+              alt={`Media ${index + 1}`}
+              className="max-h-[80vh] max-w-full rounded-xl object-contain"
+            />
+          )}
+        </div>
+        {items.length > 1 && (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onNavigate(index - 1);
+              }}
+              disabled={!hasPrevious}
+              aria-label="Previous item"
+              className={`${navButtonClass} left-4`}
+            >
+              {"\u2039"}
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onNavigate(index + 1);
+              }}
+              disabled={!hasNext}
+              aria-label="Next item"
+              className={`${navButtonClass} right-4`}
+            >
+              {"\u203a"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
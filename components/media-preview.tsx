@@ -1,22 +1,16 @@
 "use client";
 
 import type { MediaItem, ApiResponse } from "@/lib/types";
+import { formatBytes, formatDateTime } from "@/lib/format";
 
 interface MediaPreviewProps {
   items: MediaItem[];
   meta: ApiResponse["meta"] | null;
-}
-
-function formatBytes(value: number): string {
-  if (!value) return "\u2014";
-  const units = ["B", "KB", "MB", "GB"];
-  let size = value;
-  let unitIndex = 0;
-  while (size >= 1024 && unitIndex < units.length - 1) {
-    size /= 1024;
-    unitIndex++;
-  }
-  return `${size.toFixed(1)} ${units[unitIndex]}`;
+  selected: number[];
+  onToggle: (index: number) => void;
+  onToggleAll: () => void;
+  /** Opens the item full size in the lightbox. */
+  onOpen?: (index: number) => void;
 }
 
 function formatResolution(width: number, height: number): string {
@@ -24,30 +18,101 @@ function formatResolution(width: number, height: number): string {
   return `${width}\u00d7${height}`;
 }
 
+function formatCount(value: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value);
+}
+
+function formatBitrate(bandwidth: number): string {
+  if (!bandwidth) return "";
+  return bandwidth >= 1_000_000 ? `${(bandwidth / 1_000_000).toFixed(1)} Mbps` : `${Math.round(bandwidth / 1000)} kbps`;
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
+
+const CODEC_LABELS: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "HEVC",
+  hev1: "HEVC",
+  av01: "AV1",
+  vp09: "VP9",
+};
+
+function formatVideoDetails(item: MediaItem): string {
+  return [
+    item.duration ? formatDuration(item.duration) : null,
+    item.codec ? CODEC_LABELS[item.codec] ?? item.codec : null,
+    item.bitrate ? formatBitrate(item.bitrate) : null,
+  ].filter(Boolean).join(" \u00b7 ");
+}
+
 function buildProxySrc(rawUrl: string): string {
   if (!rawUrl) return "";
   return `/api/proxy?url=${encodeURIComponent(rawUrl)}`;
 }
 
-export default function MediaPreview({ items, meta }: MediaPreviewProps) {
+export default function MediaPreview({ items, meta, selected, onToggle, onToggleAll, onOpen }: MediaPreviewProps) {
   if (items.length === 0) return null;
 
+  const selectable = items.length > 1;
+  const selectedSize = selected.reduce((total, index) => total + (items[index]?.filesize ?? 0), 0);
+
   return (
     <div className="grid gap-4">
       <div className="flex items-center gap-2">
         <h3 className="text-lg font-semibold text-slate-900">
           {items.length} {items.length === 1 ? "item" : "items"}
         </h3>
+        {meta && meta.type !== "post" && (
+          <span className="rounded-full bg-brand-50 px-2 py-0.5 text-xs font-semibold text-brand-600">
+            {meta.type === "story" ? "Story" : "Highlight"}
+          </span>
+        )}
         {meta?.username && (
           <span className="text-sm text-slate-500">@{meta.username}</span>
         )}
+        {meta?.isPaidPartnership && (
+          <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+            Paid partnership
+          </span>
+        )}
       </div>
+      {meta && <PostDetails meta={meta} />}
+      {selectable && (
+        <div className="flex items-center justify-between rounded-xl bg-slate-50 px-4 py-2 text-xs text-slate-600">
+          <span>
+            {selected.length} of {items.length} selected &middot; {formatBytes(selectedSize)}
+          </span>
+          <button onClick={onToggleAll} className="font-semibold text-slate-700 hover:text-slate-900">
+            {selected.length === items.length ? "Select none" : "Select all"}
+          </button>
+        </div>
+      )}
       {items.map((item, index) => (
         <div
           key={`${item.url}-${index}`}
           className="flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white p-4 sm:flex-row"
         >
-          <div className="relative h-40 w-full overflow-hidden rounded-xl bg-slate-100 sm:w-48 sm:shrink-0">
+          {selectable && (
+            <input
+              type="checkbox"
+              checked={selected.includes(index)}
+              onChange={() => onToggle(index)}
+              aria-label={`Select item ${index + 1}`}
+              className="h-4 w-4 self-start accent-slate-900 sm:self-center"
+            />
+          )}
+          <button
+            type="button"
+            onClick={() => onOpen?.(index)}
+            disabled={!onOpen}
+            aria-label={`View item ${index + 1}`}
+            className="relative h-40 w-full overflow-hidden rounded-xl bg-slate-100 enabled:cursor-zoom-in sm:w-48 sm:shrink-0"
+          >
             {/* eslint-disable-next-line @next/next/no-img-element */}
             <img
               src={buildProxySrc(item.thumbnail || item.url)}
@@ -60,7 +125,7 @@ export default function MediaPreview({ items, meta }: MediaPreviewProps) {
                 Video
               </span>
             )}
-          </div>
+          </button>
           <div className="flex flex-1 flex-col justify-center gap-1 text-sm text-slate-600">
             <p className="font-semibold text-slate-800">
               Item {index + 1} &middot; {item.type === "video" ? "VIDEO" : "IMAGE"}
@@ -71,9 +136,62 @@ export default function MediaPreview({ items, meta }: MediaPreviewProps) {
             <p className="text-xs text-slate-500">
               Size: {formatBytes(item.filesize)}
             </p>
+            {item.type === "video" && formatVideoDetails(item) && (
+              <p className="text-xs text-slate-500">{formatVideoDetails(item)}</p>
+            )}
+            {item.dash?.video && (
+              <p className="text-xs text-slate-500">
+                DASH video: {formatResolution(item.dash.video.width ?? 0, item.dash.video.height ?? 0)}
+                {item.dash.video.bandwidth > 0 && ` \u00b7 ${formatBitrate(item.dash.video.bandwidth)}`}
+              </p>
+            )}
+            {item.dash?.audio && (
+              <p className="text-xs text-slate-500">
+                Audio track{item.dash.audio.bandwidth > 0 && `: ${formatBitrate(item.dash.audio.bandwidth)}`}
+              </p>
+            )}
+            {item.takenAt && (
+              <p className="text-xs text-slate-500">Posted {formatDateTime(item.takenAt)}</p>
+            )}
+            {item.expiresAt && meta?.type === "story" && (
+              <p className="text-xs text-amber-600">Expires {formatDateTime(item.expiresAt)}</p>
+            )}
           </div>
         </div>
       ))}
     </div>
   );
 }
+
+function PostDetails({ meta }: { meta: NonNullable<ApiResponse["meta"]> }) {
+  const stats = [
+    meta.likeCount !== undefined ? `${formatCount(meta.likeCount)} likes` : null,
+    meta.commentCount !== undefined ? `${formatCount(meta.commentCount)} comments` : null,
+    meta.viewCount !== undefined ? `${formatCount(meta.viewCount)} views` : null,
+  ].filter((value): value is string => value !== null);
+  const tags = [...(meta.hashtags ?? []).map((tag) => `#${tag}`), ...(meta.mentions ?? []).map((name) => `@${name}`)];
+
+  if (!meta.caption && stats.length === 0 && !meta.location && tags.length === 0) return null;
+
+  return (
+    <div className="grid gap-2 rounded-xl bg-slate-50 p-4 text-sm text-slate-600">
+      {(stats.length > 0 || meta.location) && (
+        <p className="text-xs text-slate-500">
+          {stats.join(" \u00b7 ")}
+          {stats.length > 0 && meta.location && " \u00b7 "}
+          {meta.location && <span>{meta.location}</span>}
+        </p>
+      )}
+      {meta.caption && <p className="whitespace-pre-line text-slate-700">{meta.caption}</p>}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <span key={tag} className="rounded-full bg-white px-2 py-0.5 text-xs text-slate-500 ring-1 ring-slate-200">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
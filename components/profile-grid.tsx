@@ -0,0 +1,98 @@
+"use client";
+
+import type { ProfileResult } from "@/lib/types";
+
+interface ProfileGridProps {
+  profile: ProfileResult;
+  selected: string[];
+  onToggle: (shortcode: string) => void;
+  onPreview: (postUrl: string) => void;
+  onLoadMore: () => void;
+  onDownloadSelected: () => void;
+  loadingMore: boolean;
+  downloading: boolean;
+}
+
+const TYPE_LABELS = { image: "Image", video: "Video", carousel: "Carousel" } as const;
+
+function buildProxySrc(rawUrl: string): string {
+  if (!rawUrl) return "";
+  return `/api/proxy?url=${encodeURIComponent(rawUrl)}`;
+}
+
+export default function ProfileGrid({
+  profile,
+  selected,
+  onToggle,
+  onPreview,
+  onLoadMore,
+  onDownloadSelected,
+  loadingMore,
+  downloading,
+}: ProfileGridProps) {
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">@{profile.username}</h3>
+          <p className="text-sm text-slate-500">
+            {profile.fullName && `${profile.fullName} \u00b7 `}
+            {profile.posts.length} loaded
+            {profile.postCount !== undefined && ` of ${profile.postCount} posts`}
+          </p>
+        </div>
+        <button
+          onClick={onDownloadSelected}
+          disabled={selected.length === 0 || downloading}
+          className="rounded-xl border border-slate-200 bg-white px-5 py-3 text-sm font-semibold text-slate-900 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400"
+        >
+          {downloading ? "Downloading..." : `Download selected (${selected.length})`}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {profile.posts.map((post) => (
+          <div key={post.shortcode} className="overflow-hidden rounded-xl border border-slate-200 bg-white">
+            <div className="relative aspect-square bg-slate-100">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={buildProxySrc(post.thumbnail)}
+                alt={post.caption ?? `Post ${post.shortcode}`}
+                className="h-full w-full object-cover"
+                loading="lazy"
+              />
+              <input
+                type="checkbox"
+                checked={selected.includes(post.shortcode)}
+                onChange={() => onToggle(post.shortcode)}
+                aria-label={`Select post ${post.shortcode}`}
+                className="absolute left-2 top-2 h-4 w-4 accent-slate-900"
+              />
+              {post.type !== "image" && (
+                <span className="absolute bottom-2 right-2 rounded-full bg-slate-900/80 px-3 py-1 text-xs font-semibold text-white">
+                  {TYPE_LABELS[post.type]}
+                </span>
+              )}
+            </div>
+            <button
+              onClick={() => onPreview(post.url)}
+              className="w-full px-3 py-2 text-left text-xs font-semibold text-slate-600 hover:bg-slate-50"
+            >
+              Preview
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {profile.nextCursor && (
+        <button
+          onClick={onLoadMore}
+          disabled={loadingMore}
+          className="justify-self-center text-sm font-semibold text-slate-600 hover:text-slate-900 disabled:text-slate-400"
+        >
+          {loadingMore ? "Loading..." : "Load more posts"}
+        </button>
+      )}
+    </div>
+  );
+}
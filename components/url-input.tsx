@@ -1,6 +1,6 @@
 "use client";
 
-const POST_RE = /https?:\/\/(www\.)?instagram\.com\/(p|reel|tv)\/[^/]+/i;
+import { POST_URL_RE, isProfileInput } from "@/lib/url-patterns";
 
 interface UrlInputProps {
   value: string;
@@ -12,13 +12,13 @@ interface UrlInputProps {
 
 export default function UrlInput({ value, onChange, onSubmit, disabled, loading }: UrlInputProps) {
   const hasValue = value.trim().length > 0;
-  const isValid = !hasValue || POST_RE.test(value.trim());
+  const isValid = !hasValue || POST_URL_RE.test(value.trim()) || isProfileInput(value);
   const canSubmit = hasValue && isValid && !disabled;
 
   return (
     <div>
       <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-        Post URL
+        Post or profile URL
       </label>
       <div className="mt-2 flex gap-3">
         <input
@@ -41,7 +41,7 @@ export default function UrlInput({ value, onChange, onSubmit, disabled, loading
       </div>
       {hasValue && !isValid && (
         <p className="mt-2 text-xs font-medium text-rose-600">
-          Enter a valid Instagram post, Reel, or IGTV URL.
+          Enter a valid Instagram post, Reel, IGTV, story, highlight, or profile URL.
         </p>
       )}
     </div>
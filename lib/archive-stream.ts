@@ -0,0 +1,393 @@
+import { createHash, randomUUID } from "crypto";
+import { once } from "events";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import archiver from "archiver";
+
+/**
+ * Streams an archive (ZIP or tar) whose entries are fetched in parallel (up
+ * to a concurrency cap) but written in order. The archive is only read as fast
+ * as the client consumes it, with at most `concurrency` entries loaded ahead:
+ * buffered bodies are held in memory, streamed ones are spooled to a temporary
+ * file as they arrive so they are hashed and checked before they go in. A
+ * body that breaks off or comes up short is loaded again, up to
+ * ZIP_BODY_RETRIES more times. An entry that still fails is left out and
+ * listed in `errors.txt` at the end of the archive, so one bad item never
+ * truncates the archive or goes in cut short. Every archive closes with a
+ * `checksums.sha256` manifest (`sha256sum -c` format) of its entries; entries
+ * with the same key or the same bytes as an earlier one are written only
+ * once. Retrying failed requests is left to the `load` functions' HTTP client.
+ */
+
+export const ARCHIVE_FORMATS = ["zip", "zip-store", "tar", "tar.gz"] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+export interface ArchiveEntrySource {
+  name: string;
+  /** Identifies the file behind the entry (e.g. its URL); later entries with the same key aren't fetched. */
+  key?: string;
+  /** Byte size a streamed body must reach to count as complete, when known. */
+  size?: number;
+  /** Resolves the entry body, either buffered or as a stream that is spooled to disk before it is written. */
+  load(signal: AbortSignal): Promise<Uint8Array | ReadableStream<Uint8Array>>;
+}
+
+export interface ArchiveStreamOptions {
+  format?: ArchiveFormat;
+  /**
+   * Exact size the caller has promised (e.g. as Content-Length). If the
+   * archive comes out any other size the stream errors instead of ending
+   * cleanly, so the client sees a failed download rather than a wrong one.
+   * Duplicates are kept in that case, since skipping them would change the size.
+   */
+  expectedBytes?: number;
+  concurrency?: number;
+  /** Called as each entry is settled, in order, before the next one is written. */
+  onEntry?: (progress: ArchiveEntryProgress) => void;
+  /** Called once the archive has been fully written, with the entries it holds. */
+  onFinish?: (files: ArchivedFile[]) => void | Promise<void>;
+}
+
+export interface ArchivedFile {
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ArchiveEntryProgress {
+  index: number;
+  name: string;
+  outcome: "written" | "duplicate" | "failed";
+  error?: string;
+}
+
+/** A streamed body written out to a temporary file. */
+export interface SpooledBody {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export const ERRORS_FILENAME = "errors.txt";
+export const CHECKSUMS_FILENAME = "checksums.sha256";
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_BODY_RETRIES = 2;
+const DATA_DESCRIPTOR_SIZE = 16;
+
+/** A streamed body broke off or came up short; loading it again may get all of it. */
+class IncompleteBodyError extends Error {}
+
+// The body of a loaded entry, buffered or as the path of its spool file
+type LoadedEntry = Omit<SpooledBody, "path"> & { source: Buffer | string };
+
+type LoadResult =
+  | { ok: true; entry: LoadedEntry }
+  | { ok: false; error: string }
+  | { ok: "duplicate"; of: number };
+
+export function createArchiveStream(
+  entries: ArchiveEntrySource[],
+  options: ArchiveStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const concurrency = Math.max(1, options.concurrency ?? readNumberEnv("ZIP_CONCURRENCY", DEFAULT_CONCURRENCY));
+  // Skipping duplicates would change the size the caller promised
+  const dedupe = options.expectedBytes === undefined;
+
+  const archive = createArchiver(options.format ?? "zip");
+  // Fired when the client goes away, so pending fetches stop too
+  const controller = new AbortController();
+  archive.once("close", () => controller.abort());
+
+  // Created with the first streamed entry and removed with the archive
+  let spoolDirectory: Promise<string> | undefined;
+  const createSpoolDirectory = () => (spoolDirectory ??= mkdtemp(path.join(os.tmpdir(), "igvault-archive-")));
+
+  const firstWithKey = new Map<string, number>();
+  const loads: Array<Promise<LoadResult>> = [];
+  const start = (index: number) => {
+    if (index >= entries.length) return;
+    const { key } = entries[index];
+    const original = key !== undefined && dedupe ? firstWithKey.get(key) : undefined;
+    if (original !== undefined) {
+      loads[index] = Promise.resolve({ ok: "duplicate", of: original });
+      return;
+    }
+    if (key !== undefined) firstWithKey.set(key, index);
+    loads[index] = loadEntry(entries[index], createSpoolDirectory, controller.signal).then(
+      (entry): LoadResult => ({ ok: true, entry }),
+      (err: unknown): LoadResult => ({ ok: false, error: err instanceof Error ? err.message : String(err) }),
+    );
+  };
+
+  (async () => {
+    try {
+      await writeEntries();
+    } finally {
+      // Loads still in flight after an abort may yet write spool files
+      await Promise.allSettled(loads);
+      if (spoolDirectory) await rm(await spoolDirectory, { recursive: true, force: true });
+    }
+  })().catch((err: unknown) => {
+    archive.destroy(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  async function writeEntries(): Promise<void> {
+    for (let i = 0; i < concurrency; i++) start(i);
+    const failures: string[] = [];
+    const duplicates: string[] = [];
+    const checksums: ArchivedFile[] = [];
+    const writtenByHash = new Map<string, string>();
+    const outcomes: Array<{ written: boolean; error?: string }> = [];
+
+    for (let i = 0; i < entries.length; i++) {
+      const { name } = entries[i];
+      const result = await loads[i];
+      if (controller.signal.aborted) return;
+
+      if (result.ok === "duplicate") {
+        const original = outcomes[result.of];
+        if (original.written) {
+          duplicates.push(`${name}: same file as ${entries[result.of].name}`);
+          options.onEntry?.({ index: i, name, outcome: "duplicate" });
+        } else {
+          failures.push(`${name}: ${original.error}`);
+          options.onEntry?.({ index: i, name, outcome: "failed", error: original.error });
+        }
+        outcomes.push(original);
+      } else if (result.ok === false) {
+        failures.push(`${name}: ${result.error}`);
+        options.onEntry?.({ index: i, name, outcome: "failed", error: result.error });
+        outcomes.push({ written: false, error: result.error });
+      } else {
+        const { entry } = result;
+        // Carousels sometimes repeat a slide, which promotion can resolve to the same file
+        const original = dedupe ? writtenByHash.get(entry.sha256) : undefined;
+        if (original !== undefined) {
+          duplicates.push(`${name}: same file as ${original}`);
+          options.onEntry?.({ index: i, name, outcome: "duplicate" });
+          if (typeof entry.source === "string") await rm(entry.source, { force: true });
+        } else {
+          if (typeof entry.source === "string") {
+            await appendSpooled(archive, { ...entry, path: entry.source }, name, controller.signal);
+          } else {
+            await appendEntry(archive, entry.source, name, controller.signal);
+          }
+          writtenByHash.set(entry.sha256, name);
+          checksums.push({ name, size: entry.size, sha256: entry.sha256 });
+          options.onEntry?.({ index: i, name, outcome: "written" });
+        }
+        outcomes.push({ written: true });
+      }
+      start(i + concurrency);
+    }
+
+    if (failures.length > 0 || duplicates.length > 0) {
+      archive.append(formatErrors(failures, duplicates, entries.length), { name: ERRORS_FILENAME });
+    }
+    archive.append(formatChecksums(checksums), { name: CHECKSUMS_FILENAME });
+    await archive.finalize();
+    await options.onFinish?.(checksums);
+  }
+
+  const stream = Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+  return options.expectedBytes === undefined ? stream : stream.pipeThrough(checkLength(options.expectedBytes));
+}
+
+export function archiveExtension(format: ArchiveFormat): string {
+  return format === "tar" || format === "tar.gz" ? format : "zip";
+}
+
+export function archiveContentType(format: ArchiveFormat): string {
+  if (format === "tar") return "application/x-tar";
+  if (format === "tar.gz") return "application/gzip";
+  return "application/zip";
+}
+
+/**
+ * Byte size of the store-only ZIP that `createArchiveStream` writes for these
+ * entries (checksum manifest included), or null past the 4 GiB mark where
+ * ZIP64 records change the layout. Mirrors archiver's output: local header
+ * (30 bytes) and central directory record (46 bytes) per entry, each with the
+ * UTF-8 name and no extra fields, then the 22-byte end of central directory
+ * record. An entry whose body is `streamed` is also followed by a 16-byte
+ * data descriptor, since its CRC is only known once it has been written.
+ */
+export function storedZipSize(entries: Array<{ name: string; size: number; streamed?: boolean }>): number | null {
+  // Each manifest line is a 64-digit hash, two spaces, the name and a newline
+  const manifestSize = entries.reduce((total, entry) => total + 64 + 2 + Buffer.byteLength(entry.name) + 1, 0);
+  let total = 22;
+  for (const entry of [...entries, { name: CHECKSUMS_FILENAME, size: manifestSize, streamed: false }]) {
+    const nameBytes = Buffer.byteLength(entry.name);
+    total += 30 + nameBytes + entry.size + 46 + nameBytes + (entry.streamed ? DATA_DESCRIPTOR_SIZE : 0);
+  }
+  return total < 0xffffffff ? total : null;
+}
+
+function createArchiver(format: ArchiveFormat): archiver.Archiver {
+  switch (format) {
+    // Photos and videos are already compressed; deflating them again mostly costs CPU
+    case "zip-store":
+      return archiver("zip", { store: true });
+    case "tar":
+      return archiver("tar");
+    case "tar.gz":
+      return archiver("tar", { gzip: true, gzipOptions: { level: 6 } });
+    default:
+      return archiver("zip", { zlib: { level: 6 } });
+  }
+}
+
+function checkLength(expected: number): TransformStream<Uint8Array, Uint8Array> {
+  let received = 0;
+  const mismatch = () => new Error(`Archive size does not match the announced ${expected} bytes.`);
+  return new TransformStream({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > expected) throw mismatch();
+      controller.enqueue(chunk);
+    },
+    flush() {
+      if (received !== expected) throw mismatch();
+    },
+  });
+}
+
+async function loadEntry(
+  source: ArchiveEntrySource,
+  createSpoolDirectory: () => Promise<string>,
+  signal: AbortSignal,
+): Promise<LoadedEntry> {
+  return retryIncomplete(async () => {
+    const body = await source.load(signal);
+    if (body instanceof Uint8Array) {
+      const buffer = Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+      return { source: buffer, size: buffer.length, sha256: createHash("sha256").update(buffer).digest("hex") };
+    }
+    let directory: string;
+    try {
+      directory = await createSpoolDirectory();
+    } catch (err) {
+      await body.cancel().catch(() => {});
+      throw err;
+    }
+    const { path: file, ...spooled } = await spoolBody(body, source, directory, signal);
+    return { source: file, ...spooled };
+  });
+}
+
+/**
+ * Runs `attempt` again while the body it spools breaks off or comes up
+ * short, up to ZIP_BODY_RETRIES more times, then rejects with the last such
+ * error. Any other failure, like an error status, is passed on straight away.
+ */
+export async function retryIncomplete<T>(attempt: () => Promise<T>): Promise<T> {
+  const retries = readNumberEnv("ZIP_BODY_RETRIES", DEFAULT_BODY_RETRIES);
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (err) {
+      if (!(err instanceof IncompleteBodyError) || retry >= retries) throw err;
+    }
+  }
+}
+
+/**
+ * Writes a streamed body to a new file in `directory`, hashing and counting
+ * it on the way. Rejects, leaving no file behind, if the body breaks off or
+ * ends short of `entry.size`; otherwise removing the file is up to the caller
+ * (`appendSpooled` does).
+ */
+export async function spoolBody(
+  body: ReadableStream<Uint8Array>,
+  entry: Pick<ArchiveEntrySource, "size">,
+  directory: string,
+  signal: AbortSignal,
+): Promise<SpooledBody> {
+  const hash = createHash("sha256");
+  const spooled: SpooledBody = { path: path.join(directory, randomUUID()), size: 0, sha256: "" };
+  const reader = body.getReader();
+
+  async function* tally(): AsyncGenerator<Uint8Array> {
+    try {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        hash.update(chunk.value);
+        spooled.size += chunk.value.byteLength;
+        yield chunk.value;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new IncompleteBodyError(`Download broke off after ${spooled.size} bytes: ${message}`);
+    }
+  }
+
+  try {
+    await pipeline(Readable.from(tally(), { objectMode: false }), createWriteStream(spooled.path), { signal });
+    // A connection cut short can still end cleanly; the known size catches it
+    if (entry.size !== undefined && spooled.size !== entry.size) {
+      throw new IncompleteBodyError(`Received ${spooled.size} of ${entry.size} bytes.`);
+    }
+  } catch (err) {
+    await rm(spooled.path, { force: true });
+    throw err;
+  } finally {
+    // Stops the upstream fetch when the client goes away mid-entry
+    await reader.cancel().catch(() => {});
+  }
+  spooled.sha256 = hash.digest("hex");
+  return spooled;
+}
+
+/** Writes a spooled body into the archive as `name`, then removes its file. */
+export async function appendSpooled(
+  archive: archiver.Archiver,
+  spooled: SpooledBody,
+  name: string,
+  signal: AbortSignal,
+): Promise<void> {
+  try {
+    await appendEntry(archive, createReadStream(spooled.path), name, signal);
+  } finally {
+    await rm(spooled.path, { force: true });
+  }
+}
+
+// Waiting for the entry to be consumed is what carries backpressure back to the fetches
+async function appendEntry(
+  archive: archiver.Archiver,
+  source: Buffer | Readable,
+  name: string,
+  signal: AbortSignal,
+): Promise<void> {
+  const appended = once(archive, "entry", { signal });
+  archive.append(source, { name });
+  await appended;
+}
+
+function formatErrors(failures: string[], duplicates: string[], total: number): string {
+  const lines: string[] = [];
+  if (failures.length > 0) {
+    lines.push(`${failures.length} of ${total} items could not be downloaded and are missing from this archive.`, "");
+    lines.push(...failures);
+  }
+  if (duplicates.length > 0) {
+    if (lines.length > 0) lines.push("");
+    const subject = duplicates.length === 1 ? "1 item was" : `${duplicates.length} items were`;
+    lines.push(`${subject} identical to an earlier item and written only once.`, "");
+    lines.push(...duplicates);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatChecksums(checksums: ArchivedFile[]): string {
+  return checksums.map(({ name, sha256 }) => `${sha256}  ${name}\n`).join("");
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,174 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import archiver from "archiver";
+import { fetchPostMedia, normalizePostUrl, type FetchPostMediaOptions } from "./instagram";
+import { isAllowedProxyUrl } from "./instagram-cdn";
+import { fetchMedia } from "./media-cache";
+import { httpClient } from "./http-client";
+import { appendSpooled, retryIncomplete, spoolBody } from "./archive-stream";
+import { buildFilenames, buildFolderName, validateFilenameTemplate } from "./filenames";
+import { recordDownload } from "./history";
+import type { PreparedDownload } from "./downloads";
+
+/**
+ * Several posts in one ZIP, a folder per post plus a report of what could
+ * not be fetched. Items are fetched one at a time, each spooled to a
+ * temporary file (and fetched again if its body breaks off) before it goes
+ * in, and only as fast as the client reads the archive; the whole batch
+ * stops when the client goes away. Shared by /api/batch and background jobs.
+ */
+
+export const MAX_BATCH_URLS = 50;
+const REPORT_FILENAME = "batch-report.txt";
+
+export interface BatchOptions {
+  urls: string[];
+  filenameTemplate?: string;
+}
+
+export interface BatchProgress {
+  onStrategy?: FetchPostMediaOptions["onStrategy"];
+  /** Called as each post is finished, successfully or not. */
+  onPost?: (report: PostReport, index: number) => void;
+}
+
+export interface PostReport {
+  url: string;
+  folder?: string;
+  status: "ok" | "partial" | "failed";
+  downloaded: number;
+  total: number;
+  errors: string[];
+}
+
+export function parseBatchRequest(body: unknown): { options: BatchOptions } | { error: string } {
+  if (!body || typeof body !== "object") return { error: "Invalid request body." };
+  const { urls, filenameTemplate } = body as { urls?: unknown; filenameTemplate?: unknown };
+
+  if (!Array.isArray(urls) || urls.length === 0) return { error: "A list of post URLs is required." };
+  if (urls.length > MAX_BATCH_URLS) return { error: `A batch can contain at most ${MAX_BATCH_URLS} post URLs.` };
+  if (!urls.every((value): value is string => typeof value === "string")) return { error: "Post URLs must be strings." };
+
+  const templateError = filenameTemplate !== undefined ? validateFilenameTemplate(filenameTemplate) : null;
+  if (templateError) return { error: templateError };
+
+  return { options: { urls, filenameTemplate: filenameTemplate as string | undefined } };
+}
+
+export function createBatchArchive(options: BatchOptions, progress: BatchProgress = {}): PreparedDownload {
+  const { urls, filenameTemplate } = options;
+  const archive = archiver("zip", { zlib: { level: 6 } });
+
+  // Fired when the client goes away, so the loop and any fetch in flight stop too
+  const controller = new AbortController();
+  archive.once("close", () => controller.abort());
+  const { signal } = controller;
+
+  // Created with the first item and removed with the archive
+  let spoolDirectory: Promise<string> | undefined;
+
+  (async () => {
+    try {
+      await writePosts();
+    } finally {
+      if (spoolDirectory) await rm(await spoolDirectory, { recursive: true, force: true });
+    }
+  })().catch((err: unknown) => {
+    archive.destroy(err instanceof Error ? err : new Error(String(err)));
+  });
+
+  async function writePosts(): Promise<void> {
+    const reports: PostReport[] = [];
+    const usedFolders = new Set<string>();
+    // History is written once the ZIP is complete, not as each post goes in
+    const downloads: Array<Parameters<typeof recordDownload>> = [];
+
+    // Posts are scraped one at a time so a large batch doesn't fan out
+    // dozens of concurrent Instagram requests from the same server.
+    for (const url of urls) {
+      if (signal.aborted) return;
+      const report: PostReport = { url, status: "failed", downloaded: 0, total: 0, errors: [] };
+      reports.push(report);
+      try {
+        const postUrl = normalizePostUrl(url).url;
+        const result = await fetchPostMedia(url, { onStrategy: progress.onStrategy });
+        const filenames = buildFilenames(result.items, result.meta, filenameTemplate);
+        const folder = uniqueFolder(buildFolderName(result.meta), usedFolders);
+        report.folder = folder;
+        report.total = result.items.length;
+        const archived: Array<{ name: string; size: number }> = [];
+
+        for (let i = 0; i < result.items.length; i++) {
+          if (signal.aborted) return;
+          const item = result.items[i];
+          if (!isAllowedProxyUrl(item.url)) {
+            report.errors.push(`Item ${i + 1}: invalid media URL.`);
+            continue;
+          }
+          try {
+            const directory = await (spoolDirectory ??= mkdtemp(path.join(os.tmpdir(), "igvault-batch-")));
+            const spooled = await retryIncomplete(async () => {
+              const response = await fetchMedia(item.url, (input, init) => httpClient(input, { ...init, signal }));
+              if (!response.ok || !response.body) {
+                await response.body?.cancel();
+                throw new Error(`upstream responded with ${response.status}.`);
+              }
+              return spoolBody(response.body, { size: item.filesize > 0 ? item.filesize : undefined }, directory, signal);
+            });
+            await appendSpooled(archive, spooled, `${folder}/${filenames[i]}`, signal);
+            report.downloaded++;
+            archived.push({ name: filenames[i], size: spooled.size });
+          } catch (err) {
+            if (signal.aborted) return;
+            report.errors.push(`Item ${i + 1}: ${err instanceof Error ? err.message : "fetch failed."}`);
+          }
+        }
+
+        if (report.total === 0) {
+          report.errors.push("No media available for download.");
+        } else if (report.downloaded === report.total) {
+          report.status = "ok";
+        } else if (report.downloaded > 0) {
+          report.status = "partial";
+        }
+        if (archived.length > 0) downloads.push([postUrl, result, archived]);
+      } catch (err) {
+        report.errors.push(err instanceof Error ? err.message : "Unexpected error.");
+      }
+      progress.onPost?.(report, reports.length - 1);
+    }
+
+    archive.append(formatReport(reports), { name: REPORT_FILENAME });
+    await archive.finalize();
+    for (const download of downloads) await recordDownload(...download);
+  }
+
+  const body = Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+  return { filename: buildBatchZipName(), contentType: "application/zip", body };
+}
+
+function uniqueFolder(base: string, used: Set<string>): string {
+  let folder = base;
+  for (let n = 2; used.has(folder); n++) folder = `${base}_${n}`;
+  used.add(folder);
+  return folder;
+}
+
+function formatReport(reports: PostReport[]): string {
+  const succeeded = reports.filter((r) => r.status === "ok").length;
+  const lines = [`Batch download report: ${succeeded} of ${reports.length} posts downloaded in full.`, ""];
+  for (const report of reports) {
+    lines.push(`[${report.status.toUpperCase()}] ${report.url}`);
+    if (report.folder) lines.push(`  folder: ${report.folder}/ (${report.downloaded}/${report.total} items)`);
+    for (const error of report.errors) lines.push(`  error: ${error}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function buildBatchZipName(): string {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `instagram_batch_${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}.zip`;
+}
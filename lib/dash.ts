@@ -0,0 +1,57 @@
+import { load } from "cheerio";
+import type { DashTrack } from "./types";
+
+/**
+ * Parses the MPEG-DASH manifest Instagram attaches to reels
+ * (`video_dash_manifest`). Video and audio are separate representations,
+ * usually at higher bitrates than the progressive `video_versions`.
+ */
+
+export function parseDashManifest(xml: string): { video: DashTrack[]; audio: DashTrack[] } {
+  const video: DashTrack[] = [];
+  const audio: DashTrack[] = [];
+  if (!xml || !xml.includes("<MPD")) return { video, audio };
+
+  const $ = load(xml, { xml: true });
+  $("AdaptationSet").each((_, set) => {
+    const $set = $(set);
+    const setType = $set.attr("contentType") ?? $set.attr("mimeType") ?? "";
+    $set.find("Representation").each((__, rep) => {
+      const $rep = $(rep);
+      const url = $rep.find("BaseURL").first().text().trim();
+      if (!url) return;
+      const mimeType = $rep.attr("mimeType") ?? $set.attr("mimeType") ?? "";
+      const kind = `${setType} ${mimeType}`;
+      const track: DashTrack = {
+        url,
+        mimeType: mimeType || (kind.includes("audio") ? "audio/mp4" : "video/mp4"),
+        bandwidth: toNumber($rep.attr("bandwidth")),
+        codecs: $rep.attr("codecs") ?? $set.attr("codecs") ?? undefined,
+      };
+      if (kind.includes("audio")) {
+        audio.push(track);
+      } else if (kind.includes("video")) {
+        track.width = toNumber($rep.attr("width") ?? $set.attr("width"));
+        track.height = toNumber($rep.attr("height") ?? $set.attr("height"));
+        video.push(track);
+      }
+    });
+  });
+
+  return { video, audio };
+}
+
+export function pickBestTrack(tracks: DashTrack[]): DashTrack | null {
+  if (tracks.length === 0) return null;
+  return tracks.reduce((best, cur) => {
+    const bestPixels = (best.width ?? 0) * (best.height ?? 0);
+    const curPixels = (cur.width ?? 0) * (cur.height ?? 0);
+    if (curPixels !== bestPixels) return curPixels > bestPixels ? cur : best;
+    return cur.bandwidth > best.bandwidth ? cur : best;
+  });
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
@@ -0,0 +1,94 @@
+import type {
+  ExtractionDiagnostics,
+  FetchLike,
+  PromotionDiagnostic,
+  RequestDiagnostic,
+  StrategyDiagnostic,
+} from "./types";
+import { hasApiKey } from "./rate-limit";
+
+/**
+ * Collects what an extraction actually did: which strategies ran and why
+ * they came up empty, every upstream request with its timing, and how each
+ * image promotion was decided. Only created for debug requests.
+ */
+
+export class DiagnosticsRecorder {
+  private startedAt = Date.now();
+  private strategies: StrategyDiagnostic[] = [];
+  private requests: RequestDiagnostic[] = [];
+  private promotions: PromotionDiagnostic[] = [];
+
+  wrapFetch(fetchImpl: FetchLike): FetchLike {
+    return async (input, init) => {
+      const startedAt = Date.now();
+      const entry: RequestDiagnostic = { method: (init?.method ?? "GET").toUpperCase(), url: input, durationMs: 0 };
+      this.requests.push(entry);
+      try {
+        const res = await fetchImpl(input, init);
+        entry.status = res.status;
+        return res;
+      } catch (err) {
+        entry.error = errorMessage(err);
+        throw err;
+      } finally {
+        entry.durationMs = Date.now() - startedAt;
+      }
+    };
+  }
+
+  startPromotion(url: string): PromotionDiagnostic {
+    const entry: PromotionDiagnostic = { url, candidates: [] };
+    this.promotions.push(entry);
+    return entry;
+  }
+
+  recordStrategy(entry: StrategyDiagnostic): void {
+    this.strategies.push(entry);
+  }
+
+  toJSON(): ExtractionDiagnostics {
+    return {
+      totalMs: Date.now() - this.startedAt,
+      strategies: this.strategies,
+      requests: this.requests,
+      promotions: this.promotions,
+    };
+  }
+}
+
+/**
+ * Runs one extraction strategy, passing `record` whether it matched, came
+ * back empty (null) or threw. Errors are rethrown unchanged.
+ */
+export async function runStrategy<T>(
+  record: ((entry: StrategyDiagnostic) => void) | undefined,
+  name: string,
+  run: () => Promise<T | null>,
+): Promise<T | null> {
+  if (!record) return run();
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    record({ name, outcome: result ? "matched" : "empty", durationMs: Date.now() - startedAt });
+    return result;
+  } catch (err) {
+    record({ name, outcome: "failed", error: errorMessage(err), durationMs: Date.now() - startedAt });
+    throw err;
+  }
+}
+
+/**
+ * Debug output is opt-in per request: `?debug=1` or an `X-Debug: 1` header.
+ * Since it bypasses the post cache it is only honoured for clients with a
+ * key from RATE_LIMIT_API_KEYS, unless DIAGNOSTICS_ACCESS=anyone.
+ */
+export function wantsDiagnostics(request: Request): boolean {
+  const flag = new URL(request.url).searchParams.get("debug") ?? request.headers.get("x-debug");
+  if (flag !== "1" && flag !== "true") return false;
+  return process.env.DIAGNOSTICS_ACCESS === "anyone" || hasApiKey(request.headers);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,228 @@
+import { fetchPostMedia, normalizePostUrl, type FetchPostMediaOptions } from "./instagram";
+import { isAllowedProxyUrl } from "./instagram-cdn";
+import { httpClient } from "./http-client";
+import { fetchMedia } from "./media-cache";
+import { embedImageMetadata, imageMetadataFromPost } from "./image-metadata";
+import { buildFilenames, buildZipName, validateFilenameTemplate } from "./filenames";
+import { recordDownload } from "./history";
+import {
+  ARCHIVE_FORMATS,
+  archiveContentType,
+  archiveExtension,
+  createArchiveStream,
+  storedZipSize,
+  type ArchiveEntryProgress,
+  type ArchiveFormat,
+} from "./archive-stream";
+import { InvalidRequestError, UpstreamError } from "./errors";
+
+/**
+ * A single post's download, shared by /api/download and background jobs: one
+ * item is streamed straight from the CDN, several are bundled into an
+ * archive as they arrive. Requests are validated up front so a job can be
+ * refused before it is queued.
+ */
+
+export interface DownloadOptions {
+  url: string;
+  /** Canonical post URL, the key history is recorded under. */
+  postUrl: string;
+  indices?: number[];
+  embedMetadata: boolean;
+  variant?: "audio";
+  filenameTemplate?: string;
+  zipTemplate?: string;
+  format: ArchiveFormat;
+}
+
+export interface DownloadProgress {
+  onStrategy?: FetchPostMediaOptions["onStrategy"];
+  /** Called once the post is extracted, with the number of files the download holds. */
+  onExtracted?: (fileCount: number) => void;
+  onEntry?: (progress: ArchiveEntryProgress) => void;
+}
+
+export interface PreparedDownload {
+  filename: string;
+  contentType: string;
+  body: ReadableStream<Uint8Array>;
+  /** Exact byte size, when it is known before the body is read. */
+  size?: number;
+}
+
+interface DownloadRequestBody {
+  url?: unknown;
+  indices?: unknown;
+  embedMetadata?: unknown;
+  variant?: unknown;
+  filenameTemplate?: unknown;
+  zipTemplate?: unknown;
+  format?: unknown;
+}
+
+export function parseDownloadRequest(body: unknown): { options: DownloadOptions } | { error: string } {
+  if (!body || typeof body !== "object") return { error: "Invalid request body." };
+  const fields = body as DownloadRequestBody;
+
+  if (!fields.url || typeof fields.url !== "string") return { error: "Post URL is required." };
+
+  const indices = parseIndices(fields.indices);
+  if (indices === null) return { error: "Item indices must be a list of non-negative integers." };
+
+  if (fields.variant !== undefined && fields.variant !== "audio") return { error: "Unsupported download variant." };
+
+  if (fields.format !== undefined && !ARCHIVE_FORMATS.includes(fields.format as ArchiveFormat)) {
+    return { error: `Archive format must be one of ${ARCHIVE_FORMATS.join(", ")}.` };
+  }
+
+  const templateError =
+    (fields.filenameTemplate !== undefined ? validateFilenameTemplate(fields.filenameTemplate) : null) ??
+    (fields.zipTemplate !== undefined ? validateFilenameTemplate(fields.zipTemplate, "archive") : null);
+  if (templateError) return { error: templateError };
+
+  let postUrl: string;
+  try {
+    postUrl = normalizePostUrl(fields.url).url;
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Invalid URL." };
+  }
+
+  return {
+    options: {
+      url: fields.url,
+      postUrl,
+      indices,
+      embedMetadata: fields.embedMetadata === true,
+      variant: fields.variant,
+      filenameTemplate: fields.filenameTemplate as string | undefined,
+      zipTemplate: fields.zipTemplate as string | undefined,
+      format: (fields.format as ArchiveFormat | undefined) ?? "zip",
+    },
+  };
+}
+
+/**
+ * Extracts the post and starts the download. Rejects with InvalidRequestError
+ * when the selection doesn't fit the post; once it resolves, later failures
+ * surface as errors on the body stream.
+ */
+export async function prepareDownload(options: DownloadOptions, progress: DownloadProgress = {}): Promise<PreparedDownload> {
+  const { postUrl, format, filenameTemplate, zipTemplate } = options;
+  const result = await fetchPostMedia(options.url, { onStrategy: progress.onStrategy });
+  if (result.items.length === 0) throw new InvalidRequestError("No media available for download.");
+
+  // Names are built from the full post so a selected item keeps its
+  // original carousel position (`_7` is still slide 7).
+  const allFilenames = buildFilenames(result.items, result.meta, filenameTemplate);
+  const selected = options.indices ?? result.items.map((_, index) => index);
+  if (selected.length === 0 || selected.some((index) => index >= result.items.length)) {
+    throw new InvalidRequestError("Selected items are out of range for this post.");
+  }
+  let items = selected.map((index) => result.items[index]);
+  let filenames = selected.map((index) => allFilenames[index]);
+
+  // Audio-only export: swap each reel for its DASH audio representation
+  if (options.variant === "audio") {
+    const audioIndices = items.flatMap((item, i) => (item.dash?.audio ? [i] : []));
+    if (audioIndices.length === 0) throw new InvalidRequestError("No audio track available for the selected items.");
+    filenames = audioIndices.map((i) => filenames[i].replace(/\.[^.]+$/, ".m4a"));
+    items = audioIndices.map((i) => ({ ...items[i], url: items[i].dash?.audio?.url ?? items[i].url, filesize: 0 }));
+  }
+  const imageMetadata = options.embedMetadata ? imageMetadataFromPost(result.meta) : null;
+  progress.onExtracted?.(items.length);
+
+  // Single item: stream directly
+  if (items.length === 1) {
+    const item = items[0];
+    if (!isAllowedProxyUrl(item.url)) throw new InvalidRequestError("Invalid media URL.");
+    const upstream = await fetchMedia(item.url);
+    if (!upstream.ok || !upstream.body) {
+      await upstream.body?.cancel();
+      throw new UpstreamError("Failed to fetch media for download.", upstream.status);
+    }
+    const contentType = upstream.headers.get("content-type") ?? "application/octet-stream";
+    // Recorded once the client has the whole file, with the size it actually got
+    const complete = async (size: number) => {
+      await recordDownload(postUrl, result, [{ name: filenames[0], size }]);
+      progress.onEntry?.({ index: 0, name: filenames[0], outcome: "written" });
+    };
+    if (imageMetadata && item.type === "image") {
+      const bytes = embedImageMetadata(
+        Buffer.from(await upstream.arrayBuffer()),
+        { ...imageMetadata, timestamp: item.takenAt ?? imageMetadata.timestamp },
+      );
+      const body = onComplete(new Blob([new Uint8Array(bytes)]).stream(), complete);
+      return { filename: filenames[0], contentType, body, size: bytes.length };
+    }
+    return { filename: filenames[0], contentType, body: onComplete(upstream.body, complete) };
+  }
+
+  // Multiple items: stream as an archive, fetching ahead while earlier entries are written
+  const archiveName = buildZipName(result.meta, zipTemplate, items.length, archiveExtension(format));
+  // Store-only ZIPs have a predictable layout, so the size can be announced when
+  // every item's size is known and nothing (like embedded metadata) changes it;
+  // those entries are all streamed from the CDN
+  const sizeKnown = items.every((item) => item.filesize > 0 && !(imageMetadata && item.type === "image"));
+  const expectedBytes =
+    format === "zip-store" && sizeKnown
+      ? storedZipSize(items.map((item, i) => ({ name: filenames[i], size: item.filesize, streamed: true }))) ?? undefined
+      : undefined;
+
+  const body = createArchiveStream(
+    items.map((item, i) => {
+      const embed = imageMetadata !== null && item.type === "image";
+      return {
+        name: filenames[i],
+        key: item.url,
+        size: item.filesize > 0 && !embed ? item.filesize : undefined,
+        load: async (signal: AbortSignal) => {
+          if (!isAllowedProxyUrl(item.url)) throw new UpstreamError("Invalid media URL.", 400);
+          const response = await fetchMedia(item.url, (input, init) => httpClient(input, { ...init, signal }));
+          if (!response.ok || !response.body) {
+            await response.body?.cancel();
+            throw new UpstreamError(`Upstream responded with ${response.status}.`, response.status);
+          }
+          if (!imageMetadata || !embed) return response.body;
+          // Metadata goes into the image's headers, so only these are read whole
+          const bytes = Buffer.from(await response.arrayBuffer());
+          if (item.filesize > 0 && bytes.length !== item.filesize) {
+            throw new UpstreamError(`Received ${bytes.length} of ${item.filesize} bytes.`);
+          }
+          return embedImageMetadata(bytes, { ...imageMetadata, timestamp: item.takenAt ?? imageMetadata.timestamp });
+        },
+      };
+    }),
+    {
+      format,
+      expectedBytes,
+      onEntry: progress.onEntry,
+      onFinish: (files) => recordDownload(postUrl, result, files),
+    },
+  );
+
+  return { filename: archiveName, contentType: archiveContentType(format), body, size: expectedBytes };
+}
+
+// Calls `complete` with the byte count once the body has been read to the end
+function onComplete(
+  body: ReadableStream<Uint8Array>,
+  complete: (size: number) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  let size = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      flush: () => complete(size),
+    }),
+  );
+}
+
+function parseIndices(value: unknown): number[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  if (!value.every((index) => Number.isInteger(index) && index >= 0)) return null;
+  return [...new Set(value as number[])].sort((a, b) => a - b);
+}
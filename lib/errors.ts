@@ -0,0 +1,11 @@
+/** Instagram or the CDN refused or failed a request we depend on. */
+export class UpstreamError extends Error {
+  status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** The request can't be served for this post, e.g. it selects items the post doesn't have. */
+export class InvalidRequestError extends Error {}
@@ -0,0 +1,153 @@
+import { runStrategy, type DiagnosticsRecorder } from "./diagnostics";
+import { UpstreamError } from "./errors";
+import { SessionError } from "./instagram-session";
+import type { ExtractedMedia } from "./instagram";
+import type { FetchLike, StrategyDiagnostic } from "./types";
+
+/**
+ * Registry of post extraction strategies, tried in order until one returns
+ * media. EXTRACTION_STRATEGIES (comma-separated names) reorders or disables
+ * them; a name that matches no strategy shows up as skipped in diagnostics.
+ * Each strategy has a circuit breaker: after repeated refusals it is skipped
+ * for a cooldown, then given one trial request. Empty results don't count,
+ * since a mistyped or deleted post comes back empty from every strategy.
+ * Strategies report a refusal by throwing an UpstreamError with its status.
+ */
+
+export interface PostExtractionContext {
+  url: string;
+  shortcode: string;
+  fetchImpl: FetchLike;
+  diagnostics?: DiagnosticsRecorder;
+  /** Told about each strategy as it finishes, e.g. to report job progress. */
+  onStrategy?: (entry: StrategyDiagnostic) => void;
+  /** The post page HTML, fetched at most once per extraction and shared. */
+  pageHtml(): Promise<string>;
+}
+
+export interface PostExtractor {
+  name: string;
+  /** Resolves null when the strategy found nothing usable. */
+  extract(context: PostExtractionContext): Promise<ExtractedMedia | null>;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+// Instagram refusing the route, as opposed to the post itself being missing
+export const REFUSED_STATUSES = new Set([401, 403, 429]);
+
+const extractors: PostExtractor[] = [];
+const circuits = new Map<string, CircuitState>();
+
+/** Adds a strategy after the existing ones, or replaces one with the same name. */
+export function registerPostExtractor(extractor: PostExtractor): void {
+  const index = extractors.findIndex((existing) => existing.name === extractor.name);
+  if (index === -1) {
+    extractors.push(extractor);
+  } else {
+    extractors[index] = extractor;
+  }
+}
+
+export function resetExtractorCircuits(): void {
+  circuits.clear();
+}
+
+export async function runPostExtractors(context: PostExtractionContext): Promise<ExtractedMedia> {
+  const { enabled, unknown } = configuredExtractors();
+  const now = Date.now();
+  const record = strategyRecorder(context);
+  for (const name of unknown) {
+    record?.({ name, outcome: "skipped", error: "Unknown strategy named in EXTRACTION_STRATEGIES", durationMs: 0 });
+  }
+
+  let firstError: unknown;
+  let skipped = 0;
+  for (const extractor of enabled) {
+    if (isOpen(extractor.name, now)) {
+      const until = new Date(circuits.get(extractor.name)?.openUntil ?? now).toISOString();
+      record?.({
+        name: extractor.name,
+        outcome: "skipped",
+        error: `Circuit open until ${until}`,
+        durationMs: 0,
+      });
+      skipped++;
+      continue;
+    }
+
+    try {
+      const result = await runStrategy(record, extractor.name, () => extractor.extract(context));
+      if (result) {
+        circuits.delete(extractor.name);
+        return result;
+      }
+    } catch (err) {
+      // A dead session fails every strategy alike; report it straight away
+      if (err instanceof SessionError) throw err;
+      if (err instanceof UpstreamError && err.status !== undefined && REFUSED_STATUSES.has(err.status)) {
+        recordFailure(extractor.name);
+      }
+      firstError ??= err;
+    }
+  }
+
+  if (firstError) throw firstError;
+  if (skipped > 0 && skipped === enabled.length) {
+    throw new UpstreamError("Instagram is refusing requests right now. Try again in a few minutes.", 503);
+  }
+  throw new Error("No media found for that post.");
+}
+
+function strategyRecorder(context: PostExtractionContext): ((entry: StrategyDiagnostic) => void) | undefined {
+  const { diagnostics, onStrategy } = context;
+  if (!diagnostics && !onStrategy) return undefined;
+  return (entry) => {
+    diagnostics?.recordStrategy(entry);
+    onStrategy?.(entry);
+  };
+}
+
+function configuredExtractors(): { enabled: PostExtractor[]; unknown: string[] } {
+  const names = (process.env.EXTRACTION_STRATEGIES ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return { enabled: [...extractors], unknown: [] };
+
+  const enabled: PostExtractor[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const extractor = extractors.find((candidate) => candidate.name === name);
+    if (extractor) {
+      enabled.push(extractor);
+    } else {
+      unknown.push(name);
+    }
+  }
+  return { enabled, unknown };
+}
+
+function isOpen(name: string, now: number): boolean {
+  return (circuits.get(name)?.openUntil ?? 0) > now;
+}
+
+// Past the threshold every further failure (including a half-open trial) re-opens the circuit
+function recordFailure(name: string): void {
+  const state = circuits.get(name) ?? { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= readNumberEnv("EXTRACTION_BREAKER_THRESHOLD", DEFAULT_FAILURE_THRESHOLD)) {
+    state.openUntil = Date.now() + readNumberEnv("EXTRACTION_BREAKER_COOLDOWN_MS", DEFAULT_COOLDOWN_MS);
+  }
+  circuits.set(name, state);
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
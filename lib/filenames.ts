@@ -0,0 +1,196 @@
+import type { ApiResponse, ImageFormat, MediaItem } from "./types";
+
+/**
+ * Download naming helpers shared by the single-post and batch routes.
+ * Default: `username_YYYY-MM-DDTHHMMSS.000Z[_index].ext`, falling back to the
+ * shortcode when the post timestamp is unknown. Story items use their own
+ * capture time.
+ *
+ * Callers may pass a template instead, e.g. `{username}_{date:YYYY-MM-DD}_{index}`.
+ * Tokens: {username} {shortcode} {kind} {date} {date:FORMAT} {index} {count}
+ * {type} {width} {height} {caption} {caption:N}. The extension is appended.
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = "{username}_{date}";
+
+const TOKEN_RE = /\{([a-z]+)(?::([^{}]*))?\}/g;
+const POST_TOKENS = new Set(["username", "shortcode", "kind", "date", "count", "caption"]);
+const ITEM_TOKENS = new Set(["index", "type", "width", "height"]);
+const MAX_TEMPLATE_LENGTH = 200;
+const MAX_NAME_LENGTH = 180;
+const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: "jpg",
+  png: "png",
+  webp: "webp",
+  avif: "avif",
+  heic: "heic",
+  gif: "gif",
+};
+
+interface TemplateContext {
+  meta?: ApiResponse["meta"];
+  count: number;
+  item?: MediaItem;
+  index?: number;
+}
+
+export function buildFilenames(
+  items: MediaItem[],
+  meta?: ApiResponse["meta"],
+  template = DEFAULT_FILENAME_TEMPLATE,
+): string[] {
+  // Without {index}, carousel items would all render alike; number them the classic way
+  const numbered = items.length > 1 && !/\{index\}/.test(template) ? `${template}_{index}` : template;
+  const names = items.map((item, index) => {
+    const base = renderTemplate(numbered, { meta, count: items.length, item, index });
+    return `${base}.${getExtension(item.url, item.type, item.format)}`;
+  });
+  return dedupeFilenames(names);
+}
+
+export function buildZipName(
+  meta?: ApiResponse["meta"],
+  template?: string,
+  count = 0,
+  extension = "zip",
+): string {
+  if (template) return `${renderTemplate(template, { meta, count })}.${extension}`;
+  const username = safeSegment(meta?.username ?? "instagram");
+  const kind = meta?.type ?? "post";
+  // A user's live story reel has no id of its own
+  if (kind === "story" && !meta?.shortcode) return `${username}_stories.${extension}`;
+  const shortcode = safeSegment(meta?.shortcode ?? "post");
+  return `${username}_${kind}_${shortcode}.${extension}`;
+}
+
+/**
+ * Returns an error message for an unusable template, or null when it is fine.
+ * Archive names describe the whole post, so per-item tokens are rejected there.
+ */
+export function validateFilenameTemplate(template: unknown, scope: "file" | "archive" = "file"): string | null {
+  if (typeof template !== "string" || template.trim().length === 0) return "Filename template must be a non-empty string.";
+  if (template.length > MAX_TEMPLATE_LENGTH) return `Filename template must be at most ${MAX_TEMPLATE_LENGTH} characters.`;
+  for (const [, name] of template.matchAll(TOKEN_RE)) {
+    if (ITEM_TOKENS.has(name) && scope === "archive") return `{${name}} can't be used in an archive name.`;
+    if (!POST_TOKENS.has(name) && !ITEM_TOKENS.has(name)) return `Unknown filename token {${name}}.`;
+  }
+  if (/[{}]/.test(template.replace(TOKEN_RE, ""))) return "Filename template has an unmatched brace.";
+  return null;
+}
+
+function renderTemplate(template: string, context: TemplateContext): string {
+  const { meta, item, index } = context;
+  let rendered = "";
+  let last = 0;
+  for (const match of template.matchAll(TOKEN_RE)) {
+    rendered += sanitizeLiteral(template.slice(last, match.index));
+    rendered += renderToken(match[1], match[2], context);
+    last = match.index + match[0].length;
+  }
+  rendered += sanitizeLiteral(template.slice(last));
+
+  // Leading dots would hide the file or walk out of the archive folder
+  const name = rendered.replace(/^[.\s]+/, "").replace(/\s+$/, "").slice(0, MAX_NAME_LENGTH);
+  if (name) return name;
+  return safeSegment(`${meta?.username ?? "instagram"}${item && index !== undefined ? `_${index + 1}` : ""}`);
+}
+
+function renderToken(name: string, arg: string | undefined, { meta, count, item, index }: TemplateContext): string {
+  switch (name) {
+    case "username":
+      return safeSegment(meta?.username ?? "instagram");
+    case "shortcode":
+      return safeSegment(meta?.shortcode ?? "post");
+    case "kind":
+      return meta?.type ?? "post";
+    case "date": {
+      // Story items were each posted at their own time
+      const timestamp = item?.takenAt ?? meta?.postTimestamp;
+      if (!timestamp) return safeSegment(meta?.shortcode ?? "post");
+      return arg ? formatTimestamp(timestamp, sanitizeLiteral(arg)) : formatTimestampForFilename(timestamp);
+    }
+    case "index":
+      return index !== undefined ? String(index + 1) : "";
+    case "count":
+      return String(count);
+    case "type":
+      return item?.type ?? "";
+    case "width":
+      return item?.width ? String(item.width) : "0";
+    case "height":
+      return item?.height ? String(item.height) : "0";
+    case "caption": {
+      const limit = Number(arg);
+      const caption = (meta?.caption ?? "").replace(/\s+/g, " ").trim();
+      const clipped = Number.isInteger(limit) && limit > 0 ? [...caption].slice(0, limit).join("") : caption;
+      return clipped ? safeSegment(clipped).replace(/_+/g, "_").replace(/^_|_$/g, "") : "";
+    }
+    default:
+      return "";
+  }
+}
+
+// Keeps the template's own separators (spaces, dashes, dots) but nothing path-like
+function sanitizeLiteral(value: string): string {
+  return value.replace(/[^a-zA-Z0-9 ._-]+/g, "_");
+}
+
+// YYYY MM DD HH mm ss, in UTC like the default format
+function formatTimestamp(timestamp: number, format: string): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const parts: Record<string, string> = {
+    YYYY: String(d.getUTCFullYear()),
+    MM: pad(d.getUTCMonth() + 1),
+    DD: pad(d.getUTCDate()),
+    HH: pad(d.getUTCHours()),
+    mm: pad(d.getUTCMinutes()),
+    ss: pad(d.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (part) => parts[part]);
+}
+
+/** Appends `_2`, `_3`, ... before the extension to names that repeat. */
+export function dedupeFilenames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const dot = name.lastIndexOf(".");
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : "";
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem}_${n}${ext}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+export function buildFolderName(meta?: ApiResponse["meta"]): string {
+  const username = safeSegment(meta?.username ?? "instagram");
+  const shortcode = safeSegment(meta?.shortcode ?? (meta?.type === "story" ? "stories" : "post"));
+  return `${username}_${shortcode}`;
+}
+
+// A probed header beats the URL path, which says .jpg for WebP and HEIC renditions too
+export function getExtension(url: string, type: "image" | "video", format?: ImageFormat): string {
+  if (format) return FORMAT_EXTENSIONS[format];
+  try {
+    const pathname = new URL(url).pathname;
+    const segment = pathname.split("/").pop() ?? "";
+    const ext = segment.split(".").pop();
+    if (ext && ext.length <= 5) return ext;
+  } catch { /* fall through */ }
+  return type === "video" ? "mp4" : "jpg";
+}
+
+export function safeSegment(value: string): string {
+  const cleaned = value.replace(/\./g, "_").replace(/[^a-zA-Z0-9_-]+/g, "_");
+  return cleaned.length > 0 ? cleaned : "instagram";
+}
+
+export function formatTimestampForFilename(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  const time = `${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}`;
+  return `${date}T${time}.000Z`;
+}
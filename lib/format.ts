@@ -0,0 +1,20 @@
+/**
+ * Display formatting shared by the pages, components and download helpers.
+ */
+
+/** Size in B/KB/MB/GB; 0 stands for an unknown size and shows as a dash. */
+export function formatBytes(value: number): string {
+  if (!value) return "\u2014";
+  const units = ["B", "KB", "MB", "GB"];
+  let size = value;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${size.toFixed(1)} ${units[unitIndex]}`;
+}
+
+export function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
@@ -0,0 +1,220 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { ExtractedMedia } from "./instagram";
+import type { HistoryEntry } from "./types";
+
+/**
+ * Record of every post that was previewed or downloaded, one entry per post
+ * so the library shows what has already been archived. Stored as a single
+ * JSON file by default; HISTORY_BACKEND=memory or none for other setups.
+ */
+
+export interface HistoryStore {
+  list(): Promise<HistoryEntry[]>;
+  get(id: string): Promise<HistoryEntry | null>;
+  put(entry: HistoryEntry): Promise<void>;
+  /** Resolves false when there was no such entry. */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface HistoryQuery {
+  /** Case-insensitive match against username or shortcode. */
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_PAGE_SIZE = 50;
+
+export class MemoryHistoryStore implements HistoryStore {
+  protected entries = new Map<string, HistoryEntry>();
+
+  constructor(protected maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async list(): Promise<HistoryEntry[]> {
+    return [...this.entries.values()];
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    return this.entries.get(id) ?? null;
+  }
+
+  async put(entry: HistoryEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+    if (this.entries.size > this.maxEntries) {
+      // Drop whatever was touched least recently
+      const oldest = [...this.entries.values()].sort((a, b) => lastActivity(a) - lastActivity(b));
+      for (const stale of oldest.slice(0, this.entries.size - this.maxEntries)) this.entries.delete(stale.id);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+}
+
+/** Keeps the whole history in memory and rewrites the file after each change. */
+export class FileHistoryStore extends MemoryHistoryStore {
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, maxEntries = DEFAULT_MAX_ENTRIES) {
+    super(maxEntries);
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async put(entry: HistoryEntry): Promise<void> {
+    await this.load();
+    await super.put(entry);
+    await this.save();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+    if (deleted) await this.save();
+    return deleted;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.read().catch((err: unknown) => {
+      // A passing failure (e.g. too many open files) is retried by the next call
+      this.loaded = null;
+      throw err;
+    });
+    return this.loaded;
+  }
+
+  private async read(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw err;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Set aside for inspection; history starts over instead of failing every request
+      await rename(this.filePath, `${this.filePath}.corrupt-${Date.now()}`);
+      return;
+    }
+    if (Array.isArray(parsed)) for (const entry of parsed as HistoryEntry[]) if (entry?.id) this.entries.set(entry.id, entry);
+  }
+
+  // Writes are chained so two requests can't interleave their temp files
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify([...this.entries.values()]);
+    this.writes = this.writes.catch(() => {}).then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const temp = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(temp, snapshot, "utf8");
+      await rename(temp, this.filePath);
+    });
+    return this.writes;
+  }
+}
+
+let store: HistoryStore | null = createDefaultStore();
+
+export function setHistoryStore(next: HistoryStore | null): void {
+  store = next;
+}
+
+export async function recordPreview(url: string, result: ExtractedMedia): Promise<void> {
+  await update(url, result, (entry) => {
+    entry.previewedAt = Date.now();
+    if (!entry.downloadedAt) entry.totalBytes = result.items.reduce((total, item) => total + item.filesize, 0);
+  });
+}
+
+export async function recordDownload(
+  url: string,
+  result: ExtractedMedia,
+  files: Array<{ name: string; size: number }>,
+): Promise<void> {
+  await update(url, result, (entry) => {
+    entry.downloadedAt = Date.now();
+    entry.downloadCount++;
+    entry.filenames = files.map((file) => file.name);
+    entry.totalBytes = files.reduce((total, file) => total + file.size, 0);
+  });
+}
+
+/** Most recently active first. */
+export async function searchHistory({ query, limit, offset }: HistoryQuery = {}): Promise<{
+  entries: HistoryEntry[];
+  total: number;
+}> {
+  if (!store) return { entries: [], total: 0 };
+  const needle = query?.trim().toLowerCase().replace(/^@/, "");
+  const matches = (await store.list())
+    .filter((entry) => !needle || [entry.username, entry.shortcode].some((value) => value?.toLowerCase().includes(needle)))
+    .sort((a, b) => lastActivity(b) - lastActivity(a));
+  const start = offset ?? 0;
+  return { entries: matches.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE)), total: matches.length };
+}
+
+export async function deleteHistoryEntry(id: string): Promise<boolean> {
+  return store ? store.delete(id) : false;
+}
+
+export function historyId(result: ExtractedMedia): string {
+  const { type, username, shortcode } = result.meta;
+  return `${type}:${username ?? ""}:${shortcode ?? ""}`;
+}
+
+// History is a convenience; a full disk must not fail the download itself
+async function update(url: string, result: ExtractedMedia, apply: (entry: HistoryEntry) => void): Promise<void> {
+  if (!store) return;
+  try {
+    const id = historyId(result);
+    const previous = await store.get(id);
+    const entry: HistoryEntry = {
+      filenames: [],
+      totalBytes: 0,
+      downloadCount: 0,
+      ...previous,
+      id,
+      url,
+      kind: result.meta.type,
+      shortcode: result.meta.shortcode,
+      username: result.meta.username,
+      thumbnail: result.items[0]?.thumbnail || result.items[0]?.url,
+      itemCount: result.items.length,
+    };
+    apply(entry);
+    await store.put(entry);
+  } catch {
+    // The download goes on without a history entry
+  }
+}
+
+function lastActivity(entry: HistoryEntry): number {
+  return Math.max(entry.previewedAt ?? 0, entry.downloadedAt ?? 0);
+}
+
+function createDefaultStore(): HistoryStore | null {
+  const backend = process.env.HISTORY_BACKEND ?? "fs";
+  if (backend === "none") return null;
+  const maxEntries = readNumberEnv("HISTORY_MAX_ENTRIES", DEFAULT_MAX_ENTRIES);
+  if (backend === "memory") return new MemoryHistoryStore(maxEntries);
+  return new FileHistoryStore(process.env.HISTORY_FILE ?? path.join(process.cwd(), ".data", "history.json"), maxEntries);
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,216 @@
+import type { FetchLike } from "./types";
+
+/**
+ * Outbound HTTP client shared by scraping, enrichment and the API routes.
+ * Adds configured default headers, a per-attempt timeout, retries with
+ * jittered exponential backoff on 429/5xx (honouring `Retry-After`), and a
+ * per-host concurrency cap. The returned function is a drop-in `fetch`.
+ *
+ * The cap covers each request until its response headers arrive, not while
+ * the body is read: it spaces out bursts of requests to a host, but a
+ * long-running stream (a proxied video, an archive entry) doesn't keep a
+ * slot, and a caller that drops an unread body can't starve the host.
+ */
+
+export interface HttpClientOptions {
+  fetch?: FetchLike;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  /** Requests to one host that may be waiting on response headers at once. */
+  maxConcurrencyPerHost?: number;
+}
+
+const DEFAULT_HEADERS: Record<string, string> = { "User-Agent": "Mozilla/5.0" };
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
+const DEFAULT_MAX_CONCURRENCY_PER_HOST = 4;
+const RETRYABLE_METHODS = new Set(["GET", "HEAD"]);
+
+export function createHttpClient(options: HttpClientOptions = {}): FetchLike {
+  const baseFetch = options.fetch ?? ((input, init) => fetch(input, init));
+  const defaultHeaders = options.headers ?? DEFAULT_HEADERS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const baseDelay = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const maxDelay = options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const limiter = createHostLimiter(options.maxConcurrencyPerHost ?? DEFAULT_MAX_CONCURRENCY_PER_HOST);
+
+  return async (input, init = {}) => {
+    const headers = new Headers(defaultHeaders);
+    new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+    const method = (init.method ?? "GET").toUpperCase();
+    const maxAttempts = RETRYABLE_METHODS.has(method) ? retries + 1 : 1;
+    const host = hostOf(input);
+
+    for (let attempt = 1; ; attempt++) {
+      init.signal?.throwIfAborted();
+      const release = await limiter.acquire(host, init.signal);
+      let res: Response;
+      try {
+        res = await fetchWithTimeout(baseFetch, input, { ...init, headers }, timeoutMs);
+      } catch (err) {
+        release();
+        // Caller aborts are final; timeouts and network failures are retried.
+        if (init.signal?.aborted || attempt >= maxAttempts) throw err;
+        await sleep(backoffDelay(attempt, baseDelay, maxDelay), init.signal);
+        continue;
+      }
+      release();
+
+      if (attempt >= maxAttempts || !isRetryableStatus(res.status)) return res;
+      const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+      if (retryAfter !== null && retryAfter > maxDelay) return res;
+      if (res.body) {
+        try { await res.body.cancel(); } catch { /* ignore */ }
+      }
+      await sleep(retryAfter ?? backoffDelay(attempt, baseDelay, maxDelay), init.signal);
+    }
+  };
+}
+
+export const httpClient = createHttpClient(readOptionsFromEnv());
+
+async function fetchWithTimeout(
+  fetchImpl: FetchLike,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+  try {
+    return await fetchImpl(url, { ...init, signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function createHostLimiter(maxPerHost: number) {
+  const limit = Math.max(1, maxPerHost);
+  const hosts = new Map<string, { active: number; waiting: Array<() => void> }>();
+
+  const acquire = async (host: string, signal?: AbortSignal | null): Promise<() => void> => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, waiting: [] };
+      hosts.set(host, state);
+    }
+    if (state.active < limit) {
+      state.active++;
+    } else {
+      // A releasing request hands its slot straight to the next waiter
+      const slot = state;
+      await new Promise<void>((resolve, reject) => {
+        const grant = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          slot.waiting = slot.waiting.filter((waiter) => waiter !== grant);
+          reject(signal?.reason);
+        };
+        slot.waiting.push(grant);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    const slot = state;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = slot.waiting.shift();
+      if (next) {
+        next();
+        return;
+      }
+      slot.active--;
+      if (slot.active === 0) hosts.delete(host);
+    };
+  };
+
+  return { acquire };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  // Full jitter: spread retries from many concurrent probes across the window
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function readOptionsFromEnv(): HttpClientOptions {
+  return {
+    headers: { ...DEFAULT_HEADERS, ...readHeadersEnv("HTTP_HEADERS") },
+    timeoutMs: readNumberEnv("HTTP_TIMEOUT_MS"),
+    retries: readNumberEnv("HTTP_RETRIES"),
+    retryBaseDelayMs: readNumberEnv("HTTP_RETRY_BASE_DELAY_MS"),
+    retryMaxDelayMs: readNumberEnv("HTTP_RETRY_MAX_DELAY_MS"),
+    maxConcurrencyPerHost: readNumberEnv("HTTP_MAX_CONCURRENCY_PER_HOST"),
+  };
+}
+
+function readHeadersEnv(name: string): Record<string, string> {
+  const raw = process.env[name];
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    );
+  } catch {
+    return {};
+  }
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,246 @@
+import { crc32 } from "zlib";
+import type { PostMeta } from "./types";
+
+/**
+ * Writes post provenance into downloaded image bytes: EXIF + XMP APP1
+ * segments for JPEG, tEXt/iTXt chunks for PNG. Other formats pass through.
+ */
+
+export interface ImageMetadata {
+  timestamp?: number;
+  username?: string;
+  caption?: string;
+  shortcode?: string;
+  sourceUrl?: string;
+}
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "binary");
+const XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "binary");
+const PNG_SIGNATURE = "89504e470d0a1a0a";
+// APP1 payloads are capped at 65533 bytes; leave room for the other fields.
+const MAX_EXIF_CAPTION_BYTES = 32_000;
+const MAX_XMP_CAPTION_CHARS = 8_000;
+
+export function imageMetadataFromPost(meta?: PostMeta): ImageMetadata {
+  return {
+    timestamp: meta?.postTimestamp,
+    username: meta?.username,
+    caption: meta?.caption,
+    shortcode: meta?.shortcode,
+    sourceUrl: buildSourceUrl(meta),
+  };
+}
+
+function buildSourceUrl(meta?: PostMeta): string | undefined {
+  if (meta?.type === "highlight") {
+    return meta.shortcode ? `https://www.instagram.com/stories/highlights/${meta.shortcode}/` : undefined;
+  }
+  if (meta?.type === "story") {
+    return meta.username ? `https://www.instagram.com/stories/${meta.username}/${meta.shortcode ? `${meta.shortcode}/` : ""}` : undefined;
+  }
+  return meta?.shortcode ? `https://www.instagram.com/p/${meta.shortcode}/` : undefined;
+}
+
+export function embedImageMetadata(buffer: Buffer, metadata: ImageMetadata): Buffer {
+  try {
+    if (isJpeg(buffer)) return embedJpeg(buffer, metadata);
+    if (isPng(buffer)) return embedPng(buffer, metadata);
+  } catch { /* leave malformed files untouched */ }
+  return buffer;
+}
+
+// --- JPEG ---
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+function embedJpeg(buffer: Buffer, metadata: ImageMetadata): Buffer {
+  const kept: Buffer[] = [];
+  let offset = 2;
+  let insertAt = 0;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Entropy-coded data starts after SOS; copy the remainder verbatim
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    if (length < 2 || offset + 2 + length > buffer.length) break;
+    const segment = buffer.subarray(offset, offset + 2 + length);
+    const payload = segment.subarray(4);
+    const isOurs =
+      marker === 0xe1 &&
+      (payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER) ||
+        payload.subarray(0, XMP_HEADER.length).equals(XMP_HEADER));
+    if (!isOurs) {
+      kept.push(segment);
+      // JFIF requires APP0 to stay directly after SOI
+      if (marker === 0xe0 && kept.length === 1) insertAt = 1;
+    }
+    offset += 2 + length;
+  }
+
+  const inserted = [
+    buildSegment(0xe1, Buffer.concat([EXIF_HEADER, buildExif(metadata)])),
+    buildSegment(0xe1, Buffer.concat([XMP_HEADER, Buffer.from(buildXmp(metadata), "utf8")])),
+  ];
+  kept.splice(insertAt, 0, ...inserted);
+  return Buffer.concat([buffer.subarray(0, 2), ...kept, buffer.subarray(offset)]);
+}
+
+function buildSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header[0] = 0xff;
+  header[1] = marker;
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+interface TiffEntry {
+  tag: number;
+  value: Buffer | number;
+}
+
+function buildExif(metadata: ImageMetadata): Buffer {
+  const ifd0: TiffEntry[] = [];
+  if (metadata.caption) ifd0.push({ tag: 0x010e, value: asciiValue(metadata.caption, MAX_EXIF_CAPTION_BYTES) });
+  if (metadata.username) ifd0.push({ tag: 0x013b, value: asciiValue(metadata.username) });
+
+  const exifIfd: TiffEntry[] = [];
+  if (metadata.timestamp) {
+    exifIfd.push({ tag: 0x9003, value: asciiValue(formatExifDate(metadata.timestamp)) });
+    exifIfd.push({ tag: 0x9011, value: asciiValue("+00:00") });
+  }
+
+  const header = Buffer.from([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]);
+  if (exifIfd.length === 0) return Buffer.concat([header, encodeIfd(ifd0, 8)]);
+
+  // IFD0 size must be known before the Exif IFD pointer can be written
+  const withPointer = [...ifd0, { tag: 0x8769, value: 0 }];
+  const exifOffset = 8 + encodeIfd(withPointer, 8).length;
+  withPointer[withPointer.length - 1].value = exifOffset;
+  return Buffer.concat([header, encodeIfd(withPointer, 8), encodeIfd(exifIfd, exifOffset)]);
+}
+
+// Encodes one big-endian IFD (ASCII or LONG entries) followed by its data area.
+function encodeIfd(entries: TiffEntry[], start: number): Buffer {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const table = Buffer.alloc(2 + sorted.length * 12 + 4);
+  const data: Buffer[] = [];
+  let dataOffset = start + table.length;
+
+  table.writeUInt16BE(sorted.length, 0);
+  sorted.forEach((entry, index) => {
+    const at = 2 + index * 12;
+    table.writeUInt16BE(entry.tag, at);
+    if (typeof entry.value === "number") {
+      table.writeUInt16BE(4, at + 2);
+      table.writeUInt32BE(1, at + 4);
+      table.writeUInt32BE(entry.value, at + 8);
+      return;
+    }
+    table.writeUInt16BE(2, at + 2);
+    table.writeUInt32BE(entry.value.length, at + 4);
+    if (entry.value.length <= 4) {
+      entry.value.copy(table, at + 8);
+      return;
+    }
+    table.writeUInt32BE(dataOffset, at + 8);
+    const padded = entry.value.length % 2 === 0 ? entry.value : Buffer.concat([entry.value, Buffer.alloc(1)]);
+    data.push(padded);
+    dataOffset += padded.length;
+  });
+  table.writeUInt32BE(0, table.length - 4);
+  return Buffer.concat([table, ...data]);
+}
+
+// EXIF ASCII is nominally 7-bit, but readers treat it as UTF-8 in practice.
+function asciiValue(text: string, maxBytes = 1024): Buffer {
+  let bytes = Buffer.from(text, "utf8");
+  if (bytes.length > maxBytes) {
+    bytes = Buffer.from(bytes.subarray(0, maxBytes).toString("utf8").replace(/\uFFFD+$/, ""), "utf8");
+  }
+  return Buffer.concat([bytes, Buffer.alloc(1)]);
+}
+
+function formatExifDate(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getUTCFullYear()}:${pad(d.getUTCMonth() + 1)}:${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+}
+
+function buildXmp(metadata: ImageMetadata): string {
+  const fields: string[] = [];
+  if (metadata.sourceUrl) fields.push(`<dc:source>${escapeXml(metadata.sourceUrl)}</dc:source>`);
+  if (metadata.shortcode) fields.push(`<dc:identifier>${escapeXml(metadata.shortcode)}</dc:identifier>`);
+  if (metadata.username) {
+    fields.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.username)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (metadata.caption) {
+    const caption = escapeXml(metadata.caption.slice(0, MAX_XMP_CAPTION_CHARS));
+    fields.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${caption}</rdf:li></rdf:Alt></dc:description>`);
+  }
+  if (metadata.timestamp) {
+    fields.push(`<photoshop:DateCreated>${new Date(metadata.timestamp).toISOString()}</photoshop:DateCreated>`);
+  }
+  return (
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+    'xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">' +
+    fields.join("") +
+    "</rdf:Description></rdf:RDF></x:xmpmeta>" +
+    '<?xpacket end="w"?>'
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// --- PNG ---
+
+function isPng(buffer: Buffer): boolean {
+  return buffer.length > 33 && buffer.subarray(0, 8).toString("hex") === PNG_SIGNATURE;
+}
+
+function embedPng(buffer: Buffer, metadata: ImageMetadata): Buffer {
+  if (buffer.subarray(12, 16).toString("ascii") !== "IHDR") return buffer;
+  const ihdrEnd = 8 + 12 + buffer.readUInt32BE(8);
+
+  const chunks: Buffer[] = [];
+  if (metadata.username) chunks.push(textChunk("Author", metadata.username));
+  if (metadata.caption) chunks.push(textChunk("Description", metadata.caption));
+  if (metadata.timestamp) chunks.push(textChunk("Creation Time", new Date(metadata.timestamp).toUTCString()));
+  if (metadata.sourceUrl) chunks.push(textChunk("Source", metadata.sourceUrl));
+  chunks.push(itxtChunk("XML:com.adobe.xmp", buildXmp(metadata)));
+
+  return Buffer.concat([buffer.subarray(0, ihdrEnd), ...chunks, buffer.subarray(ihdrEnd)]);
+}
+
+// tEXt is Latin-1 only; anything else goes into an iTXt chunk instead
+function textChunk(keyword: string, text: string): Buffer {
+  if ([...text].some((char) => char.charCodeAt(0) > 0xff)) return itxtChunk(keyword, text);
+  return buildChunk("tEXt", Buffer.concat([Buffer.from(`${keyword}\0`, "latin1"), Buffer.from(text, "latin1")]));
+}
+
+function itxtChunk(keyword: string, text: string): Buffer {
+  // keyword\0, compression flag 0, method 0, empty language tag\0, empty translated keyword\0
+  const header = Buffer.concat([Buffer.from(`${keyword}\0`, "latin1"), Buffer.from([0, 0, 0, 0])]);
+  return buildChunk("iTXt", Buffer.concat([header, Buffer.from(text, "utf8")]));
+}
+
+function buildChunk(type: string, data: Buffer): Buffer {
+  const typeBytes = Buffer.from(type, "ascii");
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([typeBytes, data])), 0);
+  return Buffer.concat([length, typeBytes, data, crc]);
+}
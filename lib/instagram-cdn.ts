@@ -31,3 +31,15 @@ export function decodeEfgTag(url: string): string | null {
     return null;
   }
 }
+
+/** Returns the signed URL's `oe=` expiry (hex unix seconds) in milliseconds. */
+export function parseCdnExpiry(url: string): number | null {
+  try {
+    const oe = new URL(url).searchParams.get("oe");
+    if (!oe || !/^[0-9a-f]+$/i.test(oe)) return null;
+    const seconds = parseInt(oe, 16);
+    return seconds > 0 ? seconds * 1000 : null;
+  } catch {
+    return null;
+  }
+}
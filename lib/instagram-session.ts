@@ -0,0 +1,168 @@
+import { readFile } from "fs/promises";
+import type { FetchLike } from "./types";
+
+/**
+ * Operator-configured Instagram login session. Cookies are attached only to
+ * Instagram page/API hosts and are stripped on any redirect that leaves them,
+ * so they can never reach the CDN hosts that `/api/proxy` fetches.
+ *
+ * Configure with INSTAGRAM_SESSION_FILE (Netscape cookies.txt or JSON export)
+ * or INSTAGRAM_SESSION_COOKIES (a `Cookie` header string or JSON). A session
+ * that is configured but can't be read, or lacks a `sessionid` cookie, fails
+ * requests with a SessionError until it is fixed, rather than quietly going
+ * without it.
+ */
+
+export interface InstagramSession {
+  cookieHeader: string;
+  csrfToken?: string;
+}
+
+export class SessionError extends Error {
+  status?: number;
+  constructor(message: string, status?: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const SESSION_HOSTS = new Set(["instagram.com", "www.instagram.com", "i.instagram.com"]);
+const MAX_REDIRECTS = 5;
+const SESSION_FAILURE_MESSAGES = new Set(["login_required", "checkpoint_required", "challenge_required"]);
+
+let sessionPromise: Promise<InstagramSession | null> | null = null;
+
+export function loadInstagramSession(): Promise<InstagramSession | null> {
+  // A failed load isn't kept, so fixing the file takes effect without a restart
+  sessionPromise ??= readSessionConfig().catch((err: unknown) => {
+    sessionPromise = null;
+    throw err;
+  });
+  return sessionPromise;
+}
+
+export function withInstagramSession(fetchImpl: FetchLike, session: InstagramSession): FetchLike {
+  return async (input, init = {}) => {
+    let url = input;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const authenticated = isSessionHost(url);
+      const headers = new Headers(init.headers);
+      if (authenticated) {
+        headers.set("Cookie", session.cookieHeader);
+        if (session.csrfToken) headers.set("X-CSRFToken", session.csrfToken);
+      }
+      // Redirects are followed by hand so the cookie is dropped the moment
+      // a hop leaves Instagram's own hosts.
+      const res = await fetchImpl(url, { ...init, headers, redirect: "manual" });
+      if (authenticated) await assertSessionValid(res);
+
+      const location = res.headers.get("location");
+      if (res.status < 300 || res.status >= 400 || !location) return withFinalUrl(res, url);
+      if (res.body) {
+        try { await res.body.cancel(); } catch { /* ignore */ }
+      }
+      url = new URL(location, url).toString();
+    }
+    throw new Error("Too many redirects.");
+  };
+}
+
+function isSessionHost(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && SESSION_HOSTS.has(parsed.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+async function assertSessionValid(res: Response): Promise<void> {
+  const location = res.headers.get("location") ?? "";
+  if (res.status >= 300 && res.status < 400 && /\/(accounts\/login|challenge)\b/.test(location)) {
+    throw new SessionError("Instagram session has expired or needs verification. Update the configured session.", 401);
+  }
+  if (res.status !== 400 && res.status !== 401 && res.status !== 403) return;
+
+  let reason = "";
+  try {
+    const body = await res.clone().json();
+    reason = typeof body?.message === "string" ? body.message : "";
+  } catch { /* not JSON */ }
+  if (res.status === 401 || SESSION_FAILURE_MESSAGES.has(reason)) {
+    throw new SessionError("Instagram session has expired or needs verification. Update the configured session.", res.status);
+  }
+}
+
+// Manually followed responses report the first URL; callers rely on res.url
+// for post-redirect allowlist checks, so expose the URL actually fetched.
+function withFinalUrl(res: Response, url: string): Response {
+  if (res.url === url) return res;
+  Object.defineProperty(res, "url", { value: url });
+  return res;
+}
+
+async function readSessionConfig(): Promise<InstagramSession | null> {
+  const file = process.env.INSTAGRAM_SESSION_FILE;
+  const inline = process.env.INSTAGRAM_SESSION_COOKIES;
+  if (!file && !inline) return null;
+  let cookies: Map<string, string>;
+  try {
+    const text = file ? await readFile(file, "utf8") : (inline ?? "");
+    cookies = parseCookies(text.trim());
+  } catch (err) {
+    throw new SessionError(`The configured Instagram session could not be read: ${err instanceof Error ? err.message : err}`);
+  }
+  return sessionFromCookies(cookies);
+}
+
+function sessionFromCookies(cookies: Map<string, string>): InstagramSession {
+  if (!cookies.has("sessionid")) {
+    throw new SessionError("The configured Instagram session has no sessionid cookie. Update the configured session.");
+  }
+  const cookieHeader = [...cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+  return { cookieHeader, csrfToken: cookies.get("csrftoken") };
+}
+
+function parseCookies(text: string): Map<string, string> {
+  const cookies = new Map<string, string>();
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    const parsed = JSON.parse(text);
+    const entries: Array<{ name?: unknown; value?: unknown; domain?: unknown }> = Array.isArray(parsed)
+      ? parsed
+      : Object.entries(parsed).map(([name, value]) => ({ name, value }));
+    for (const entry of entries) {
+      if (typeof entry.name !== "string" || typeof entry.value !== "string") continue;
+      if (typeof entry.domain === "string" && !isInstagramCookieDomain(entry.domain)) continue;
+      cookies.set(entry.name, entry.value);
+    }
+    return cookies;
+  }
+
+  // Netscape cookies.txt: domain, flag, path, secure, expiry, name, value
+  if (text.includes("\t")) {
+    for (const line of text.split(/\r?\n/)) {
+      const record = line.startsWith("#HttpOnly_") ? line.slice("#HttpOnly_".length) : line;
+      if (!record || record.startsWith("#")) continue;
+      const fields = record.split("\t");
+      if (fields.length < 7 || !isInstagramCookieDomain(fields[0])) continue;
+      const expiry = Number(fields[4]);
+      if (expiry > 0 && expiry * 1000 < Date.now()) continue;
+      cookies.set(fields[5], fields[6]);
+    }
+    return cookies;
+  }
+
+  // Raw Cookie header: "sessionid=...; csrftoken=..."
+  for (const pair of text.split(";")) {
+    const index = pair.indexOf("=");
+    if (index <= 0) continue;
+    cookies.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+function isInstagramCookieDomain(domain: string): boolean {
+  const host = domain.replace(/^\./, "").toLowerCase();
+  return host === "instagram.com" || host.endsWith(".instagram.com");
+}
@@ -1,30 +1,64 @@
 import { load } from "cheerio";
-import type { MediaItem } from "./types";
+import type { FetchLike, MediaItem, PostKind, PostMeta, ProfilePost, ProfileResult } from "./types";
 import { enrichMediaItems } from "./media";
+import type { DiagnosticsRecorder } from "./diagnostics";
+import { REFUSED_STATUSES, registerPostExtractor, runPostExtractors, type PostExtractionContext } from "./extractors";
 import { decodeEfgTag } from "./instagram-cdn";
+import { parseDashManifest, pickBestTrack } from "./dash";
+import { cachePost, getCachedPost } from "./post-cache";
+import { createHttpClient, httpClient } from "./http-client";
+import { UpstreamError } from "./errors";
+import { loadInstagramSession, SessionError, withInstagramSession, type InstagramSession } from "./instagram-session";
+
+export { SessionError } from "./instagram-session";
+export { UpstreamError } from "./errors";
 
 export interface ExtractedMedia {
   items: MediaItem[];
-  meta: {
-    type: "post";
-    username?: string;
-    shortcode?: string;
-    postTimestamp?: number;
-  };
+  meta: PostMeta;
 }
 
-export class UpstreamError extends Error {
-  status?: number;
-  constructor(message: string, status?: number) {
-    super(message);
-    this.status = status;
-  }
+type PostDetails = Omit<PostMeta, "type" | "username" | "shortcode" | "postTimestamp">;
+
+export interface FetchPostMediaOptions {
+  /** Transport for Instagram and CDN requests, wrapped in the shared client policy. */
+  fetch?: FetchLike;
+  /** Login session for Instagram hosts; defaults to the configured one, `null` disables it. */
+  session?: InstagramSession | null;
+  /** Records strategies, upstream requests and image promotion; skips the cached result. */
+  diagnostics?: DiagnosticsRecorder;
+  /** Told about each extraction strategy as it finishes; cached results run none. */
+  onStrategy?: PostExtractionContext["onStrategy"];
+}
+
+export interface FetchProfileOptions extends FetchPostMediaOptions {
+  /** `nextCursor` from a previous page. */
+  cursor?: string;
 }
 
 const POST_PATH_RE = /\/(p|reel|tv)\/([A-Za-z0-9_-]+)/;
-const FETCH_TIMEOUT_MS = 10_000;
+const HIGHLIGHT_PATH_RE = /^\/stories\/highlights\/(\d+)\/?$/;
+const STORY_PATH_RE = /^\/stories\/([A-Za-z0-9._]{1,30})(?:\/(\d+))?\/?$/;
+const PROFILE_PATH_RE = /^\/([A-Za-z0-9._]{1,30})\/?$/;
+const RESERVED_PROFILE_PATHS = new Set([
+  "about", "accounts", "api", "developer", "direct", "explore", "graphql",
+  "legal", "p", "reel", "reels", "stories", "tv", "web",
+]);
+// Public web client id; web_profile_info refuses requests without it
+const WEB_APP_ID = "936619743392459";
+const PROFILE_POSTS_QUERY_HASH = "69cba40317214236af40e7efa697781d";
+const PROFILE_PAGE_SIZE = 12;
+
+export interface NormalizedPostUrl {
+  url: string;
+  /** Post shortcode, or the numeric media/highlight id for stories. */
+  shortcode: string;
+  kind: PostKind;
+  /** Story owner; only known up front for `/stories/<username>/` URLs. */
+  username?: string;
+}
 
-export function normalizePostUrl(input: string): { url: string; shortcode: string } {
+export function normalizePostUrl(input: string): NormalizedPostUrl {
   const trimmed = input.trim();
   let parsed: URL;
   try {
@@ -35,73 +69,246 @@ export function normalizePostUrl(input: string): { url: string; shortcode: strin
   if (!parsed.hostname.includes("instagram.com")) {
     throw new Error("Post URL must be from instagram.com.");
   }
+
+  const highlight = parsed.pathname.match(HIGHLIGHT_PATH_RE);
+  if (highlight) {
+    const [, id] = highlight;
+    return { url: `https://www.instagram.com/stories/highlights/${id}/`, shortcode: id, kind: "highlight" };
+  }
+  const story = parsed.pathname.match(STORY_PATH_RE);
+  if (story) {
+    const username = story[1].toLowerCase();
+    const id = story[2] ?? "";
+    const url = `https://www.instagram.com/stories/${username}/${id ? `${id}/` : ""}`;
+    return { url, shortcode: id, kind: "story", username };
+  }
+
   const match = parsed.pathname.match(POST_PATH_RE);
   if (!match) {
-    throw new Error("Post URL must include /p/, /reel/, or /tv/ and a shortcode.");
+    throw new Error("Post URL must include /p/, /reel/, /tv/, or /stories/ and an id.");
   }
   const [, type, shortcode] = match;
   const url = `https://www.instagram.com/${type}/${shortcode}/`;
-  return { url, shortcode };
-}
-
-export async function fetchPostMedia(postUrl: string): Promise<ExtractedMedia> {
-  const { url, shortcode } = normalizePostUrl(postUrl);
-
-  // Strategy 1: ?__a=1&__d=dis magic parameters
-  const json = await tryFetchJson(`${url}?__a=1&__d=dis`);
-  if (json) {
-    const media = extractShortcodeMedia(json);
-    const items = media ? extractFromMediaNode(media) : [];
-    if (items.length > 0) {
-      const username = findUsername(media);
-      const postTimestamp = findPostTimestamp(media);
-      await enrichMediaItems(items);
-      return { items, meta: { type: "post", username, shortcode, postTimestamp } };
+  return { url, shortcode, kind: "post" };
+}
+
+export function normalizeProfileUrl(input: string): { url: string; username: string } {
+  let parsed: URL;
+  try {
+    parsed = new URL(input.trim());
+  } catch {
+    throw new Error("Invalid profile URL.");
+  }
+  if (!parsed.hostname.includes("instagram.com")) {
+    throw new Error("Profile URL must be from instagram.com.");
+  }
+  const match = parsed.pathname.match(PROFILE_PATH_RE);
+  if (!match || RESERVED_PROFILE_PATHS.has(match[1].toLowerCase())) {
+    throw new Error("Profile URL must look like instagram.com/<username>/.");
+  }
+  const username = match[1].toLowerCase();
+  return { url: `https://www.instagram.com/${username}/`, username };
+}
+
+export async function fetchPostMedia(
+  postUrl: string,
+  options: FetchPostMediaOptions = {},
+): Promise<ExtractedMedia> {
+  const normalized = normalizePostUrl(postUrl);
+  // Story ids are numeric and a user's live reel has none; keep them apart from shortcodes
+  const cacheKey = normalized.kind === "post"
+    ? normalized.shortcode
+    : `${normalized.kind}:${normalized.username ?? ""}:${normalized.shortcode}`;
+
+  // A cached answer would leave nothing to diagnose
+  const cached = options.diagnostics ? null : await getCachedPost(cacheKey);
+  if (cached) return cached;
+
+  const fetchImpl = await resolveFetch(options);
+  const result = normalized.kind === "post"
+    ? await extractPostMedia(normalized.url, normalized.shortcode, fetchImpl, options)
+    : await extractStoryMedia(normalized, fetchImpl, options.diagnostics);
+  await cachePost(cacheKey, result);
+  return result;
+}
+
+export async function fetchProfilePosts(
+  profileUrl: string,
+  options: FetchProfileOptions = {},
+): Promise<ProfileResult> {
+  const { url, username } = normalizeProfileUrl(profileUrl);
+  const fetchImpl = await resolveFetch(options);
+
+  if (options.cursor) {
+    const { userId, after } = decodeProfileCursor(options.cursor);
+    const variables = JSON.stringify({ id: userId, first: PROFILE_PAGE_SIZE, after });
+    const json = await tryFetchJson(
+      `https://www.instagram.com/graphql/query/?query_hash=${PROFILE_POSTS_QUERY_HASH}&variables=${encodeURIComponent(variables)}`,
+      fetchImpl,
+    );
+    const timeline = findProfileTimeline(json);
+    if (!timeline) throw new UpstreamError("Could not load more posts for that profile.");
+    return buildProfileResult(username, { ...timeline, userId: timeline.userId ?? userId });
+  }
+
+  // Strategy 1: web_profile_info JSON API
+  const json = await tryFetchJson(
+    `https://www.instagram.com/api/v1/users/web_profile_info/?username=${encodeURIComponent(username)}`,
+    fetchImpl,
+    { headers: { "X-IG-App-ID": WEB_APP_ID } },
+  );
+  let timeline = findProfileTimeline(json);
+
+  // Strategy 2: JSON embedded in the profile page
+  if (!timeline) {
+    const html = await fetchHtml(url, fetchImpl);
+    for (const blob of extractJsonFromHtml(html)) {
+      timeline = findProfileTimeline(blob);
+      if (timeline) break;
     }
   }
 
-  // Strategy 2: Parse HTML page for embedded JSON
-  const html = await fetchHtml(url);
-  const postTimestampFromHtml = parsePostDateFromHtml(html);
+  if (!timeline) throw new Error("No posts found for that profile.");
+  return buildProfileResult(username, timeline);
+}
+
+async function extractPostMedia(
+  url: string,
+  shortcode: string,
+  fetchImpl: FetchLike,
+  { diagnostics, onStrategy }: FetchPostMediaOptions,
+): Promise<ExtractedMedia> {
+  let page: Promise<string> | null = null;
+  return runPostExtractors({
+    url,
+    shortcode,
+    fetchImpl,
+    diagnostics,
+    onStrategy,
+    pageHtml: () => (page ??= fetchHtml(url, fetchImpl)),
+  });
+}
+
+// --- Built-in post extractors (default order) ---
+
+registerPostExtractor({ name: "api-json", extract: extractFromApiJson });
+registerPostExtractor({ name: "page-json", extract: extractFromPageJson });
+registerPostExtractor({ name: "embed-json", extract: extractFromEmbedPage });
+registerPostExtractor({ name: "og-meta", extract: extractFromOgMeta });
+
+// ?__a=1&__d=dis magic parameters
+async function extractFromApiJson({ url, shortcode, fetchImpl, diagnostics }: PostExtractionContext) {
+  // A refusal is thrown rather than read as "no JSON", so this strategy's breaker can open
+  const json = await tryFetchJson(`${url}?__a=1&__d=dis`, fetchImpl, undefined, { throwOnRefusal: true });
+  const media = json ? extractShortcodeMedia(json) : null;
+  const items = media ? extractFromMediaNode(media) : [];
+  if (items.length === 0) return null;
+  const username = findUsername(media);
+  const postTimestamp = findPostTimestamp(media);
+  const details = findPostDetails(media);
+  await enrichMediaItems(items, fetchImpl, diagnostics);
+  return { items, meta: { type: "post" as const, username, shortcode, postTimestamp, ...details } };
+}
+
+// JSON embedded in the post page
+async function extractFromPageJson({ shortcode, fetchImpl, diagnostics, pageHtml }: PostExtractionContext) {
+  const html = await pageHtml();
   const metaInfo = extractMetaInfoFromHtml(html);
-  const jsonResult = await extractFromHtmlJson(html, shortcode, metaInfo, postTimestampFromHtml);
-  if (jsonResult) return jsonResult;
+  return extractFromHtmlJson(html, shortcode, metaInfo, fetchImpl, parsePostDateFromHtml(html), diagnostics);
+}
 
-  // Strategy 3: Parse embed page
-  const embedHtml = await fetchHtml(`${url}embed/`);
+// JSON embedded in the embed page, dated from the main page when it loads
+async function extractFromEmbedPage({ url, shortcode, fetchImpl, diagnostics, pageHtml }: PostExtractionContext) {
+  const embedHtml = await fetchHtml(`${url}embed/`, fetchImpl);
   const embedMetaInfo = extractMetaInfoFromHtml(embedHtml);
-  const embedResult = await extractFromHtmlJson(embedHtml, shortcode, embedMetaInfo, postTimestampFromHtml);
-  if (embedResult) return embedResult;
+  const postTimestamp = parsePostDateFromHtml(await pageHtml().catch(() => ""));
+  return extractFromHtmlJson(embedHtml, shortcode, embedMetaInfo, fetchImpl, postTimestamp, diagnostics);
+}
 
-  // Strategy 4: OG meta tags fallback
+// OG meta tags on the post page
+async function extractFromOgMeta({ url, shortcode, fetchImpl, diagnostics, pageHtml }: PostExtractionContext) {
+  const html = await pageHtml();
   const metaFallback = extractMetaMediaFromHtml(html);
-  if (metaFallback.items.length > 0) {
-    if (metaFallback.items.length === 1 && metaFallback.items[0].type === "image") {
-      const legacyUrl = await resolveLegacyImageUrl(url);
-      if (legacyUrl) {
-        metaFallback.items[0].url = legacyUrl;
-        metaFallback.items[0].thumbnail = legacyUrl;
-      }
+  if (metaFallback.items.length === 0) return null;
+  if (metaFallback.items.length === 1 && metaFallback.items[0].type === "image") {
+    const legacyUrl = await resolveLegacyImageUrl(url, fetchImpl);
+    if (legacyUrl) {
+      metaFallback.items[0].url = legacyUrl;
+      metaFallback.items[0].thumbnail = legacyUrl;
     }
-    await enrichMediaItems(metaFallback.items);
-    return {
-      items: metaFallback.items,
-      meta: {
-        type: "post",
-        username: metaFallback.username,
-        shortcode,
-        postTimestamp: metaFallback.postTimestamp ?? postTimestampFromHtml,
-      },
-    };
   }
+  await enrichMediaItems(metaFallback.items, fetchImpl, diagnostics);
+  return {
+    items: metaFallback.items,
+    meta: {
+      type: "post" as const,
+      username: metaFallback.username,
+      shortcode,
+      postTimestamp: metaFallback.postTimestamp ?? parsePostDateFromHtml(html),
+      ...metaFallback.details,
+    },
+  };
+}
 
-  throw new Error("No media found for that post.");
+async function extractStoryMedia(
+  target: NormalizedPostUrl,
+  fetchImpl: FetchLike,
+  diagnostics?: DiagnosticsRecorder,
+): Promise<ExtractedMedia> {
+  // Highlights are addressed as reels directly; a user's story reel is keyed by their numeric id
+  let reelId = `highlight:${target.shortcode}`;
+  if (target.kind === "story") {
+    const profile = await tryFetchJson(
+      `https://www.instagram.com/api/v1/users/web_profile_info/?username=${encodeURIComponent(target.username ?? "")}`,
+      fetchImpl,
+      { headers: { "X-IG-App-ID": WEB_APP_ID } },
+    );
+    const userId = findUserId(profile);
+    if (!userId) throw new UpstreamError("Could not find that account's stories.");
+    reelId = userId;
+  }
+
+  const json = await tryFetchJson(
+    `https://www.instagram.com/api/v1/feed/reels_media/?reel_ids=${encodeURIComponent(reelId)}`,
+    fetchImpl,
+    { headers: { "X-IG-App-ID": WEB_APP_ID } },
+  );
+  const reel = findStoryReel(json, reelId);
+  if (!reel) {
+    throw new UpstreamError("Could not load that story. Stories are only visible with a configured Instagram session.");
+  }
+
+  let nodes = reel.nodes;
+  if (target.kind === "story" && target.shortcode) {
+    nodes = nodes.filter((node) => storyNodeId(node) === target.shortcode);
+    if (nodes.length === 0) throw new Error("That story has expired or is no longer available.");
+  }
+
+  const items = nodes.flatMap((node) => extractStoryItems(node, reel.expiresAt));
+  if (items.length === 0) throw new Error("No media found for that story.");
+  await enrichMediaItems(items, fetchImpl, diagnostics);
+  return {
+    items,
+    meta: {
+      type: target.kind,
+      username: reel.username ?? target.username,
+      shortcode: target.shortcode || undefined,
+      postTimestamp: items[0].takenAt,
+    },
+  };
 }
 
 // --- HTTP helpers ---
 
-async function fetchHtml(url: string): Promise<string> {
-  const res = await fetchWithTimeout(url, { headers: { "User-Agent": "Mozilla/5.0" } });
+async function resolveFetch(options: FetchPostMediaOptions): Promise<FetchLike> {
+  const base = options.fetch ? createHttpClient({ fetch: options.fetch }) : httpClient;
+  const session = options.session === undefined ? await loadInstagramSession() : options.session;
+  const fetchImpl = session ? withInstagramSession(base, session) : base;
+  return options.diagnostics ? options.diagnostics.wrapFetch(fetchImpl) : fetchImpl;
+}
+
+async function fetchHtml(url: string, fetchImpl: FetchLike): Promise<string> {
+  const res = await fetchImpl(url);
   if (res.status === 401 || res.status === 403) {
     throw new UpstreamError("Instagram temporarily blocked this request. Try again later.", res.status);
   }
@@ -111,23 +318,29 @@ async function fetchHtml(url: string): Promise<string> {
   return await res.text();
 }
 
-async function tryFetchJson(url: string): Promise<unknown | null> {
+async function tryFetchJson(
+  url: string,
+  fetchImpl: FetchLike,
+  init?: RequestInit,
+  { throwOnRefusal = false }: { throwOnRefusal?: boolean } = {},
+): Promise<unknown | null> {
+  let res: Response;
   try {
-    const res = await fetchWithTimeout(url, { headers: { "User-Agent": "Mozilla/5.0" } });
-    if (!res.ok) return null;
-    return await res.json();
-  } catch {
+    res = await fetchImpl(url, init);
+  } catch (err) {
+    // A dead session fails every later strategy too; report it instead
+    if (err instanceof SessionError) throw err;
     return null;
   }
-}
-
-async function fetchWithTimeout(url: string, init?: RequestInit): Promise<Response> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  if (throwOnRefusal && REFUSED_STATUSES.has(res.status)) {
+    await res.body?.cancel();
+    throw new UpstreamError("Instagram refused the request.", res.status);
+  }
+  if (!res.ok) return null;
   try {
-    return await fetch(url, { ...init, signal: controller.signal });
-  } finally {
-    clearTimeout(timeout);
+    return await res.json();
+  } catch {
+    return null;
   }
 }
 
@@ -139,6 +352,7 @@ function extractShortcodeMedia(blob: any): any | null {
   if (blob?.graphql?.shortcode_media) return blob.graphql.shortcode_media;
   if (blob?.data?.shortcode_media) return blob.data.shortcode_media;
   if (blob?.gql_data?.shortcode_media) return blob.gql_data.shortcode_media;
+  if (blob?.entry_data?.PostPage?.[0]?.graphql?.shortcode_media) return blob.entry_data.PostPage[0].graphql.shortcode_media;
   if (blob?.context?.media) return blob.context.media;
   if (Array.isArray(blob?.items) && blob.items.length > 0) return blob.items[0];
   if (blob?.props?.pageProps?.data?.shortcode_media) return blob.props.pageProps.data.shortcode_media;
@@ -189,7 +403,14 @@ function extractFromMediaNode(node: any): MediaItem[] {
     const w = inferred?.width ?? bestVideo?.width ?? bestImage?.width ?? node.dimensions?.width ?? 0;
     const h = inferred?.height ?? bestVideo?.height ?? bestImage?.height ?? node.dimensions?.height ?? 0;
 
-    return [{ type: "video", url, thumbnail, width: w, height: h, filesize: 0 }];
+    const manifest = parseDashManifest(node.video_dash_manifest ?? node.dash_info?.video_dash_manifest ?? "");
+    const dashVideo = pickBestTrack(manifest.video);
+    const dashAudio = pickBestTrack(manifest.audio);
+    const dash = dashVideo || dashAudio
+      ? { ...(dashVideo ? { video: dashVideo } : {}), ...(dashAudio ? { audio: dashAudio } : {}) }
+      : undefined;
+
+    return [{ type: "video", url, thumbnail, width: w, height: h, filesize: 0, ...(dash ? { dash } : {}) }];
   }
 
   const url = bestImage?.src ?? node.display_url ?? "";
@@ -305,7 +526,9 @@ async function extractFromHtmlJson(
   html: string,
   shortcode: string,
   metaInfo: ReturnType<typeof extractMetaInfoFromHtml>,
+  fetchImpl: FetchLike,
   fallbackTimestamp?: number,
+  diagnostics?: DiagnosticsRecorder,
 ): Promise<ExtractedMedia | null> {
   const jsonBlobs = extractJsonFromHtml(html);
   for (const blob of jsonBlobs) {
@@ -315,18 +538,140 @@ async function extractFromHtmlJson(
     if (items.length === 0) continue;
     const username = findUsername(media) ?? metaInfo.username;
     const postTimestamp = findPostTimestamp(media) ?? metaInfo.postTimestamp ?? fallbackTimestamp;
-    await enrichMediaItems(items);
-    return { items, meta: { type: "post", username, shortcode, postTimestamp } };
+    const details = mergeDetails(findPostDetails(media), metaInfo.details);
+    await enrichMediaItems(items, fetchImpl, diagnostics);
+    return { items, meta: { type: "post", username, shortcode, postTimestamp, ...details } };
+  }
+  return null;
+}
+
+// --- Story extraction ---
+
+interface StoryReel {
+  nodes: any[];
+  username?: string;
+  expiresAt?: number;
+}
+
+function findUserId(blob: any): string | undefined {
+  const id = blob?.data?.user?.id ?? blob?.user?.pk ?? blob?.user?.id;
+  return id !== undefined && id !== null ? String(id) : undefined;
+}
+
+// reels_media answers with a `reels` map keyed by reel id, or a `reels_media` list on older endpoints
+function findStoryReel(blob: any, reelId: string): StoryReel | null {
+  const reel =
+    blob?.reels?.[reelId] ??
+    (Array.isArray(blob?.reels_media)
+      ? blob.reels_media.find((entry: any) => String(entry?.id) === reelId) ?? blob.reels_media[0]
+      : undefined);
+  if (!reel || !Array.isArray(reel.items)) return null;
+  return {
+    nodes: reel.items,
+    username: typeof reel.user?.username === "string" ? reel.user.username : undefined,
+    expiresAt: toMillis(reel.expiring_at),
+  };
+}
+
+// Story media ids look like `<pk>_<owner id>`; URLs use the bare pk
+function storyNodeId(node: any): string {
+  return String(node?.pk ?? String(node?.id ?? "").split("_")[0]);
+}
+
+function extractStoryItems(node: any, reelExpiresAt?: number): MediaItem[] {
+  const takenAt = findPostTimestamp(node);
+  const expiresAt = toMillis(node?.expiring_at) ?? reelExpiresAt;
+  return extractFromMediaNode(node).map((item) => ({
+    ...item,
+    ...(takenAt ? { takenAt } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+  }));
+}
+
+// --- Profile extraction ---
+
+interface ProfileTimeline {
+  nodes: any[];
+  endCursor?: string;
+  hasNextPage: boolean;
+  userId?: string;
+  fullName?: string;
+  postCount?: number;
+}
+
+// Walks a JSON blob for either the GraphQL `edge_owner_to_timeline_media`
+// connection or the newer `xdt_api__v1__feed__user_timeline_graphql_connection`.
+function findProfileTimeline(blob: unknown): ProfileTimeline | null {
+  const stack: unknown[] = [blob];
+  while (stack.length > 0) {
+    const node = stack.pop() as any;
+    if (!node || typeof node !== "object") continue;
+    if (Array.isArray(node)) {
+      for (const value of node) stack.push(value);
+      continue;
+    }
+    const connection = node.edge_owner_to_timeline_media ?? node.xdt_api__v1__feed__user_timeline_graphql_connection;
+    if (connection && Array.isArray(connection.edges)) {
+      return {
+        nodes: connection.edges.map((edge: any) => edge?.node).filter(Boolean),
+        endCursor: connection.page_info?.end_cursor ?? undefined,
+        hasNextPage: Boolean(connection.page_info?.has_next_page),
+        userId: node.id ?? node.pk ?? undefined,
+        fullName: node.full_name || undefined,
+        postCount: toCount(connection.count),
+      };
+    }
+    for (const value of Object.values(node)) stack.push(value);
   }
   return null;
 }
 
+function buildProfileResult(username: string, timeline: ProfileTimeline): ProfileResult {
+  const posts = timeline.nodes
+    .map((node): ProfilePost | null => {
+      const shortcode = node.shortcode ?? node.code;
+      if (typeof shortcode !== "string" || !shortcode) return null;
+      const candidates = normalizeCandidates(node.thumbnail_resources ?? node.image_versions2?.candidates ?? []);
+      const isCarousel =
+        node.__typename === "GraphSidecar" || node.media_type === 8 || Array.isArray(node.carousel_media);
+      const isVideo = Boolean(node.is_video) || node.__typename === "GraphVideo" || node.media_type === 2;
+      return {
+        shortcode,
+        url: `https://www.instagram.com/p/${shortcode}/`,
+        thumbnail: node.thumbnail_src ?? pickSmallest(candidates)?.src ?? node.display_url ?? "",
+        type: isCarousel ? "carousel" : isVideo ? "video" : "image",
+        postTimestamp: findPostTimestamp(node),
+        caption: findPostDetails(node).caption,
+      };
+    })
+    .filter((post): post is ProfilePost => post !== null);
+
+  const nextCursor =
+    timeline.hasNextPage && timeline.endCursor && timeline.userId
+      ? encodeProfileCursor(String(timeline.userId), timeline.endCursor)
+      : undefined;
+  return { username, fullName: timeline.fullName, postCount: timeline.postCount, posts, nextCursor };
+}
+
+function encodeProfileCursor(userId: string, after: string): string {
+  return Buffer.from(JSON.stringify({ userId, after }), "utf8").toString("base64url");
+}
+
+function decodeProfileCursor(cursor: string): { userId: string; after: string } {
+  const parsed = safeJsonParse(Buffer.from(cursor, "base64url").toString("utf8"));
+  if (typeof parsed?.userId !== "string" || typeof parsed?.after !== "string") {
+    throw new Error("Invalid profile cursor.");
+  }
+  return parsed;
+}
+
 // --- OG meta tag extraction ---
 
 function extractMetaMediaFromHtml(html: string): {
   items: MediaItem[];
   username?: string;
   postTimestamp?: number;
+  details: PostDetails;
 } {
   const $ = load(html);
   const ogImage = decodeHtmlEntities($('meta[property="og:image"]').attr("content") ?? "");
@@ -340,6 +685,7 @@ function extractMetaMediaFromHtml(html: string): {
       items: [{ type: "video", url: ogVideo, thumbnail: ogImage || ogVideo, width: 0, height: 0, filesize: 0 }],
       username: metaInfo.username,
       postTimestamp: metaInfo.postTimestamp,
+      details: metaInfo.details,
     };
   }
   if (ogImage) {
@@ -347,25 +693,26 @@ function extractMetaMediaFromHtml(html: string): {
       items: [{ type: "image", url: ogImage, thumbnail: ogImage, width: 0, height: 0, filesize: 0 }],
       username: metaInfo.username,
       postTimestamp: metaInfo.postTimestamp,
+      details: metaInfo.details,
     };
   }
-  return { items: [], username: metaInfo.username, postTimestamp: metaInfo.postTimestamp };
+  return { items: [], username: metaInfo.username, postTimestamp: metaInfo.postTimestamp, details: metaInfo.details };
 }
 
-function extractMetaInfoFromHtml(html: string): { username?: string; postTimestamp?: number } {
+function extractMetaInfoFromHtml(html: string): { username?: string; postTimestamp?: number; details: PostDetails } {
   const $ = load(html);
   const ogUrl = decodeHtmlEntities($('meta[property="og:url"]').attr("content") ?? "");
   const description = decodeHtmlEntities(
     $('meta[name="description"]').attr("content") ?? $('meta[property="og:description"]').attr("content") ?? "",
   );
   const postTimestamp = parsePostDateFromDescription(description) ?? parsePostDateFromHtml(html);
-  return { username: extractUsernameFromOgUrl(ogUrl), postTimestamp };
+  return { username: extractUsernameFromOgUrl(ogUrl), postTimestamp, details: parseDetailsFromDescription(description) };
 }
 
-async function resolveLegacyImageUrl(postUrl: string): Promise<string | null> {
+async function resolveLegacyImageUrl(postUrl: string, fetchImpl: FetchLike): Promise<string | null> {
   const legacyUrl = postUrl.includes("/media/") ? postUrl : `${postUrl}media/?size=l`;
   try {
-    const res = await fetchWithTimeout(legacyUrl, { headers: { "User-Agent": "Mozilla/5.0" } });
+    const res = await fetchImpl(legacyUrl);
     const contentType = res.headers.get("content-type") ?? "";
     if (!res.ok || !contentType.startsWith("image/")) return null;
     if (res.body) {
@@ -397,12 +744,87 @@ function findUsername(media: any): string | undefined {
   return media?.owner?.username ?? media?.user?.username;
 }
 
+function findPostDetails(media: any): PostDetails {
+  const captionText =
+    media?.edge_media_to_caption?.edges?.[0]?.node?.text ??
+    media?.caption?.text ??
+    (typeof media?.caption === "string" ? media.caption : undefined);
+  const caption = typeof captionText === "string" && captionText.trim() ? captionText : undefined;
+  const sponsors = media?.edge_media_to_sponsor_user?.edges ?? media?.sponsor_tags ?? media?.sponsor_users;
+  return {
+    ...parseCaptionTags(caption),
+    caption,
+    likeCount: toCount(media?.edge_media_preview_like?.count ?? media?.edge_liked_by?.count ?? media?.like_count),
+    commentCount: toCount(
+      media?.edge_media_to_parent_comment?.count ?? media?.edge_media_to_comment?.count ?? media?.comment_count,
+    ),
+    viewCount: toCount(media?.video_view_count ?? media?.video_play_count ?? media?.play_count ?? media?.view_count),
+    location: typeof media?.location?.name === "string" && media.location.name ? media.location.name : undefined,
+    isPaidPartnership:
+      typeof media?.is_paid_partnership === "boolean"
+        ? media.is_paid_partnership
+        : Array.isArray(sponsors) ? sponsors.length > 0 : undefined,
+  };
+}
+
 function findPostTimestamp(media: any): number | undefined {
-  const ts = media?.taken_at_timestamp ?? media?.taken_at ?? media?.date;
+  return toMillis(media?.taken_at_timestamp ?? media?.taken_at ?? media?.date);
+}
+
+// Instagram mixes epoch seconds and milliseconds
+function toMillis(ts: unknown): number | undefined {
   if (typeof ts !== "number") return undefined;
   return ts < 1e12 ? ts * 1000 : ts;
 }
 
+// Description format: `12 likes, 3 comments - user on February 19, 2024: "Caption".`
+function parseDetailsFromDescription(value: string): PostDetails {
+  if (!value) return {};
+  const normalized = value.replace(/\u00a0/g, " ");
+  const likes = /^([\d.,]+[KM]?)\s+likes?\b/i.exec(normalized);
+  const comments = /([\d.,]+[KM]?)\s+comments?\b/i.exec(normalized);
+  const quoted = /:\s*["\u201c]([\s\S]*)["\u201d]\.?\s*$/.exec(normalized);
+  const caption = quoted?.[1]?.trim() || undefined;
+  return {
+    ...parseCaptionTags(caption),
+    caption,
+    likeCount: likes ? parseAbbreviatedCount(likes[1]) : undefined,
+    commentCount: comments ? parseAbbreviatedCount(comments[1]) : undefined,
+  };
+}
+
+function parseCaptionTags(caption?: string): { hashtags?: string[]; mentions?: string[] } {
+  if (!caption) return {};
+  const hashtags = [...new Set([...caption.matchAll(/#([\p{L}\p{N}_]+)/gu)].map((m) => m[1]))];
+  const mentions = [
+    ...new Set([...caption.matchAll(/(?:^|[^\w@])@([A-Za-z0-9._]{1,30})/g)].map((m) => m[1].replace(/\.+$/, ""))),
+  ];
+  return {
+    hashtags: hashtags.length > 0 ? hashtags : undefined,
+    mentions: mentions.length > 0 ? mentions : undefined,
+  };
+}
+
+function mergeDetails(primary: PostDetails, fallback: PostDetails): PostDetails {
+  const merged: PostDetails = { ...fallback };
+  for (const [key, value] of Object.entries(primary) as Array<[keyof PostDetails, unknown]>) {
+    if (value !== undefined) Object.assign(merged, { [key]: value });
+  }
+  return merged;
+}
+
+function toCount(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function parseAbbreviatedCount(value: string): number | undefined {
+  const match = /^([\d.,]+)([KM]?)$/i.exec(value);
+  if (!match) return undefined;
+  const multiplier = match[2].toUpperCase() === "M" ? 1e6 : match[2].toUpperCase() === "K" ? 1e3 : 1;
+  const number = multiplier === 1 ? Number(match[1].replace(/[.,]/g, "")) : Number(match[1].replace(/,/g, ""));
+  return Number.isFinite(number) ? Math.round(number * multiplier) : undefined;
+}
+
 function parsePostDateFromDescription(value: string): number | undefined {
   if (!value) return undefined;
   const normalized = value.replace(/\u00a0/g, " ");
@@ -0,0 +1,31 @@
+import type { JobEvent, JobSnapshot } from "./types";
+
+/**
+ * Folds a job event into the job's snapshot. The server keeps its snapshot
+ * this way and the browser rebuilds the same one from the event stream.
+ */
+export function applyJobEvent(snapshot: JobSnapshot, event: JobEvent): JobSnapshot {
+  switch (event.type) {
+    case "status":
+      return { ...snapshot, status: event.status, total: event.total ?? snapshot.total };
+    case "strategy":
+      return { ...snapshot, strategy: { name: event.name, outcome: event.outcome } };
+    case "item":
+      return { ...snapshot, completed: event.index + 1, failed: snapshot.failed + (event.outcome === "failed" ? 1 : 0) };
+    case "post":
+      return { ...snapshot, completed: event.index + 1, failed: snapshot.failed + (event.outcome === "failed" ? 1 : 0) };
+    case "bytes":
+      return { ...snapshot, bytesWritten: event.written };
+    case "done":
+      return {
+        ...snapshot,
+        status: "done",
+        filename: event.filename,
+        size: event.size,
+        bytesWritten: event.size,
+        expiresAt: event.expiresAt,
+      };
+    case "failed":
+      return { ...snapshot, status: "failed", error: event.error };
+  }
+}
@@ -0,0 +1,303 @@
+import { randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readdir, rm, stat } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  parseDownloadRequest,
+  prepareDownload,
+  type DownloadOptions,
+  type DownloadProgress,
+  type PreparedDownload,
+} from "./downloads";
+import { createBatchArchive, parseBatchRequest, type BatchOptions } from "./batch";
+import { applyJobEvent } from "./job-events";
+import type { JobEvent, JobSnapshot, JobStatus } from "./types";
+
+/**
+ * Background downloads. A job extracts the post (or each post of a batch),
+ * writes the file to disk and reports progress to any listeners as it goes;
+ * the finished file is kept for JOBS_TTL_MS, then deleted along with the
+ * job. Finished jobs are also dropped oldest first once there are more than
+ * JOBS_MAX_FINISHED of them or their files add up to over JOBS_MAX_BYTES.
+ * Jobs live in this process's memory, so they don't survive a restart and
+ * aren't shared between instances; job files in JOBS_DIR older than
+ * JOBS_TTL_MS, left by a previous process, are cleared before the first job
+ * writes there. Younger ones are left alone, since they may belong to another
+ * instance sharing the directory.
+ */
+
+export type JobRequest =
+  | { kind: "download"; options: DownloadOptions }
+  | { kind: "batch"; options: BatchOptions };
+
+/** Receives each event with its id, which counts up from 1 per job. */
+export type JobListener = (event: JobEvent, id: number) => void;
+
+export interface JobFile {
+  body: ReadableStream<Uint8Array>;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+/** Too many jobs are already waiting or running, overall (503) or for this client (429). */
+export class JobLimitError extends Error {
+  status: 429 | 503;
+  constructor(message: string, status: 429 | 503) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface Job {
+  request: JobRequest;
+  client: string;
+  snapshot: JobSnapshot;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+  filePath?: string;
+  contentType?: string;
+  lastBytesEventAt: number;
+}
+
+interface JobRegistry {
+  jobs: Map<string, Job>;
+  queue: Job[];
+  running: number;
+  /** Directories already cleared of expired files from a previous process, by path. */
+  prepared: Map<string, Promise<void>>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_PENDING = 20;
+const DEFAULT_MAX_PENDING_PER_CLIENT = 3;
+const DEFAULT_MAX_FINISHED = 100;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+// Job files are named by job id; anything else in JOBS_DIR is left alone
+const JOB_FILE_NAME = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+// Enough to move a progress bar without flooding the event log
+const BYTES_EVENT_INTERVAL_MS = 500;
+
+// Route handlers can be bundled separately; they must all see the same jobs
+const registry: JobRegistry = ((globalThis as { __igvaultJobs?: JobRegistry }).__igvaultJobs ??= {
+  jobs: new Map(),
+  queue: [],
+  running: 0,
+  prepared: new Map(),
+});
+
+/** A /api/batch body (`urls`, ...) starts a batch job; anything else is read as a /api/download body. */
+export function parseJobRequest(body: unknown): { request: JobRequest } | { error: string } {
+  if (typeof body === "object" && body !== null && "urls" in body) {
+    const parsed = parseBatchRequest(body);
+    return "error" in parsed ? parsed : { request: { kind: "batch", options: parsed.options } };
+  }
+  const parsed = parseDownloadRequest(body);
+  return "error" in parsed ? parsed : { request: { kind: "download", options: parsed.options } };
+}
+
+/** `client` identifies who asked (see getClientKey), so one client can't fill the queue. */
+export function createJob(request: JobRequest, client: string): JobSnapshot {
+  const pending = registry.queue.length + registry.running;
+  if (pending >= readNumberEnv("JOBS_MAX_PENDING", DEFAULT_MAX_PENDING)) {
+    throw new JobLimitError("Too many downloads are in progress. Try again in a minute.", 503);
+  }
+  const ownPending = [...registry.jobs.values()].filter((job) => job.client === client && isPending(job)).length;
+  if (ownPending >= readNumberEnv("JOBS_MAX_PENDING_PER_CLIENT", DEFAULT_MAX_PENDING_PER_CLIENT)) {
+    throw new JobLimitError("You already have several downloads in progress. Wait for one to finish.", 429);
+  }
+
+  const job: Job = {
+    request,
+    client,
+    snapshot: {
+      id: randomUUID(),
+      kind: request.kind,
+      status: "queued",
+      createdAt: Date.now(),
+      completed: 0,
+      failed: 0,
+      bytesWritten: 0,
+    },
+    events: [],
+    listeners: new Set(),
+    lastBytesEventAt: 0,
+  };
+  registry.jobs.set(job.snapshot.id, job);
+  emit(job, { type: "status", status: "queued" });
+  registry.queue.push(job);
+  pump();
+  return job.snapshot;
+}
+
+export function getJob(id: string): JobSnapshot | null {
+  return registry.jobs.get(id)?.snapshot ?? null;
+}
+
+/**
+ * Replays the job's events after `afterId` (e.g. an SSE Last-Event-ID), then
+ * passes on new ones as they happen. Returns the unsubscribe function, or
+ * null when there is no such job.
+ */
+export function subscribeToJob(id: string, afterId: number, listener: JobListener): (() => void) | null {
+  const job = registry.jobs.get(id);
+  if (!job) return null;
+  job.events.slice(afterId).forEach((event, i) => listener(event, afterId + i + 1));
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
+
+/** The finished file, or null while the job is still running (or failed). */
+export function openJobFile(id: string): JobFile | null {
+  const job = registry.jobs.get(id);
+  if (!job?.filePath || job.snapshot.status !== "done") return null;
+  return {
+    body: Readable.toWeb(createReadStream(job.filePath)) as ReadableStream<Uint8Array>,
+    filename: job.snapshot.filename ?? job.snapshot.id,
+    contentType: job.contentType ?? "application/octet-stream",
+    size: job.snapshot.size ?? 0,
+  };
+}
+
+function pump(): void {
+  while (registry.running < readNumberEnv("JOBS_CONCURRENCY", DEFAULT_CONCURRENCY) && registry.queue.length > 0) {
+    const job = registry.queue.shift()!;
+    registry.running++;
+    void run(job).finally(() => {
+      registry.running--;
+      pump();
+    });
+  }
+}
+
+async function run(job: Job): Promise<void> {
+  const directory = process.env.JOBS_DIR ?? path.join(os.tmpdir(), "igvault-jobs");
+  const filePath = path.join(directory, job.snapshot.id);
+  const ttl = readNumberEnv("JOBS_TTL_MS", DEFAULT_TTL_MS);
+
+  try {
+    const prepared = await start(job);
+    await prepareDirectory(directory, ttl);
+    await pipeline(
+      Readable.fromWeb(prepared.body as Parameters<typeof Readable.fromWeb>[0]),
+      async function* (source: AsyncIterable<Uint8Array>) {
+        for await (const chunk of source) {
+          reportBytes(job, job.snapshot.bytesWritten + chunk.length);
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath),
+    );
+    job.filePath = filePath;
+    job.contentType = prepared.contentType;
+    await evictFinished(job);
+    emit(job, { type: "done", filename: prepared.filename, size: job.snapshot.bytesWritten, expiresAt: Date.now() + ttl });
+  } catch (err) {
+    await rm(filePath, { force: true }).catch(() => {});
+    job.snapshot.expiresAt = Date.now() + ttl;
+    await evictFinished(job);
+    emit(job, { type: "failed", error: err instanceof Error ? err.message : "Unexpected error." });
+  }
+
+  setTimeout(() => void expire(job), ttl).unref();
+}
+
+function isPending(job: Job): boolean {
+  return job.snapshot.status !== "done" && job.snapshot.status !== "failed";
+}
+
+function prepareDirectory(directory: string, ttl: number): Promise<void> {
+  let prepared = registry.prepared.get(directory);
+  if (!prepared) {
+    prepared = (async () => {
+      await mkdir(directory, { recursive: true });
+      const leftovers = (await readdir(directory)).filter((name) => JOB_FILE_NAME.test(name));
+      await Promise.all(leftovers.map((name) => removeExpired(path.join(directory, name), ttl).catch(() => {})));
+    })();
+    // A failed attempt is retried by the next job
+    prepared.catch(() => registry.prepared.delete(directory));
+    registry.prepared.set(directory, prepared);
+  }
+  return prepared;
+}
+
+// Past its TTL no instance serves the file any more; a younger one may still be in use
+async function removeExpired(file: string, ttl: number): Promise<void> {
+  const { mtimeMs } = await stat(file);
+  if (Date.now() - mtimeMs > ttl) await rm(file, { force: true });
+}
+
+// Drops the oldest finished jobs past the count and disk caps to make room for the one finishing now
+async function evictFinished(latest: Job): Promise<void> {
+  const finished = [...registry.jobs.values()].filter((job) => job !== latest && !isPending(job));
+  let count = finished.length + 1;
+  const fileSize = (job: Job) => (job.filePath ? job.snapshot.bytesWritten : 0);
+  let bytes = finished.reduce((total, job) => total + fileSize(job), fileSize(latest));
+  const maxFinished = readNumberEnv("JOBS_MAX_FINISHED", DEFAULT_MAX_FINISHED);
+  const maxBytes = readNumberEnv("JOBS_MAX_BYTES", DEFAULT_MAX_BYTES);
+
+  for (const job of finished) {
+    if (count <= maxFinished && bytes <= maxBytes) break;
+    count--;
+    bytes -= fileSize(job);
+    await expire(job);
+  }
+}
+
+function start(job: Job): Promise<PreparedDownload> {
+  const onStrategy: DownloadProgress["onStrategy"] = ({ name, outcome, error }) =>
+    emit(job, { type: "strategy", name, outcome, error });
+
+  if (job.request.kind === "batch") {
+    const total = job.request.options.urls.length;
+    setStatus(job, "downloading", total);
+    return Promise.resolve(
+      createBatchArchive(job.request.options, {
+        onStrategy,
+        onPost: (report, index) => emit(job, { type: "post", index, url: report.url, outcome: report.status }),
+      }),
+    );
+  }
+
+  setStatus(job, "extracting");
+  return prepareDownload(job.request.options, {
+    onStrategy,
+    onExtracted: (fileCount) => setStatus(job, "downloading", fileCount),
+    onEntry: ({ index, name, outcome, error }) => emit(job, { type: "item", index, name, outcome, error }),
+  });
+}
+
+function setStatus(job: Job, status: JobStatus, total?: number): void {
+  emit(job, { type: "status", status, total });
+}
+
+// The count is always current in the snapshot; `done` carries the final one
+function reportBytes(job: Job, written: number): void {
+  job.snapshot.bytesWritten = written;
+  const now = Date.now();
+  if (now - job.lastBytesEventAt < BYTES_EVENT_INTERVAL_MS) return;
+  job.lastBytesEventAt = now;
+  emit(job, { type: "bytes", written });
+}
+
+function emit(job: Job, event: JobEvent): void {
+  job.events.push(event);
+  job.snapshot = applyJobEvent(job.snapshot, event);
+  const id = job.events.length;
+  for (const listener of job.listeners) listener(event, id);
+}
+
+async function expire(job: Job): Promise<void> {
+  registry.jobs.delete(job.snapshot.id);
+  job.listeners.clear();
+  if (job.filePath) await rm(job.filePath, { force: true }).catch(() => {});
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,332 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import { mkdir, open, readdir, readFile, rename, rm, stat, writeFile, type FileHandle } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { httpClient } from "./http-client";
+import { parseCdnExpiry } from "./instagram-cdn";
+import type { FetchLike } from "./types";
+
+/**
+ * Bounded on-disk cache for CDN media bodies served through `/api/proxy` and
+ * the download routes. Entries are keyed by the full signed CDN URL, so a
+ * hit needs the same `oh=` signature the CDN checked when it was fetched;
+ * they are evicted least-recently-used once the size limit is reached, and
+ * expire with the URL's `oe=` parameter.
+ */
+
+export interface CachedMedia {
+  key: string;
+  size: number;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+  expiresAt: number;
+}
+
+export interface MediaCacheWriter {
+  /** Resolves false once the entry has been dropped; further chunks are ignored. */
+  write(chunk: Uint8Array): Promise<boolean>;
+  /** Publishes the entry after the last chunk. */
+  commit(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+const DEFAULT_MAX_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+/**
+ * Host, path and every query param in a fixed order. The signature params
+ * stay in: the CDN's signature check is the only thing keeping private
+ * media private, and serving a cached body to a request with a forged or
+ * stripped signature would skip it.
+ */
+export function canonicalMediaKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  parsed.hash = "";
+  return `${parsed.host}${parsed.pathname}?${parsed.searchParams}`;
+}
+
+export class MediaCache {
+  private entries = new Map<string, CachedMedia>();
+  private totalBytes = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private directory: string, private maxBytes = DEFAULT_MAX_BYTES) {}
+
+  /** Largest single body worth caching; bigger files would flush everything else. */
+  get maxEntryBytes(): number {
+    return Math.floor(this.maxBytes / 4);
+  }
+
+  async get(url: string): Promise<CachedMedia | null> {
+    await this.load();
+    const key = canonicalMediaKey(url);
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return null;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /** Streams `[start, end]` (inclusive) of a cached body. */
+  read(entry: CachedMedia, start = 0, end = entry.size - 1): ReadableStream<Uint8Array> {
+    const stream = createReadStream(this.bodyPath(entry.key), { start, end });
+    return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+  }
+
+  /** Caches a whole body; for one that is also being sent to a client, use `startWrite`. */
+  async put(url: string, body: ReadableStream<Uint8Array>, headers: Headers): Promise<void> {
+    const writer = await this.startWrite(url, headers);
+    if (!writer) {
+      await body.cancel();
+      return;
+    }
+    const reader = body.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return await writer.commit();
+        if (!(await writer.write(value))) return await reader.cancel();
+      }
+    } catch {
+      await writer.abort();
+    }
+  }
+
+  /**
+   * Opens an entry to be filled chunk by chunk, or returns null when the body
+   * isn't worth caching (too large or already expired). The writer never
+   * throws: on any failure it drops the entry and the body is simply not cached.
+   */
+  async startWrite(url: string, headers: Headers): Promise<MediaCacheWriter | null> {
+    await this.load();
+    const key = canonicalMediaKey(url);
+    const declared = Number(headers.get("content-length"));
+    const expiresAt = parseCdnExpiry(url) ?? Date.now() + readNumberEnv("MEDIA_CACHE_TTL_MS", DEFAULT_TTL_MS);
+    if (declared > this.maxEntryBytes || expiresAt <= Date.now()) return null;
+
+    const target = this.bodyPath(key);
+    const temp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    let file: FileHandle;
+    try {
+      await mkdir(this.directory, { recursive: true });
+      file = await open(temp, "w");
+    } catch {
+      return null;
+    }
+
+    let size = 0;
+    let closed = false;
+    const abort = async () => {
+      if (closed) return;
+      closed = true;
+      await file.close().catch(() => {});
+      await rm(temp, { force: true }).catch(() => {});
+    };
+
+    return {
+      write: async (chunk) => {
+        if (closed) return false;
+        size += chunk.byteLength;
+        try {
+          if (size > this.maxEntryBytes) throw new Error("Body outgrew the cache entry limit.");
+          await file.write(chunk);
+          return true;
+        } catch {
+          await abort();
+          return false;
+        }
+      },
+      commit: async () => {
+        if (closed) return;
+        closed = true;
+        try {
+          await file.close();
+          // A short read means upstream went away mid-transfer
+          if (declared > 0 && size !== declared) throw new Error("Body is shorter than its Content-Length.");
+          const entry: CachedMedia = {
+            key,
+            size,
+            contentType: headers.get("content-type") ?? "application/octet-stream",
+            etag: headers.get("etag") ?? undefined,
+            lastModified: headers.get("last-modified") ?? undefined,
+            expiresAt,
+          };
+          await writeFile(this.metaPath(key), JSON.stringify(entry), "utf8");
+          await rename(temp, target);
+          this.track(entry);
+          await this.evict();
+        } catch {
+          await rm(temp, { force: true }).catch(() => {});
+        }
+      },
+      abort,
+    };
+  }
+
+  private track(entry: CachedMedia): void {
+    const previous = this.entries.get(entry.key);
+    if (previous) this.totalBytes -= previous.size;
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.totalBytes += entry.size;
+  }
+
+  private async evict(): Promise<void> {
+    while (this.totalBytes > this.maxBytes) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      await this.remove(oldest);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) this.totalBytes -= entry.size;
+    this.entries.delete(key);
+    await rm(this.bodyPath(key), { force: true });
+    await rm(this.metaPath(key), { force: true });
+  }
+
+  // Rebuilds the index from disk once per process, oldest access first
+  private load(): Promise<void> {
+    if (!this.loading) this.loading = this.scan();
+    return this.loading;
+  }
+
+  private async scan(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch {
+      return;
+    }
+    const found: Array<{ entry: CachedMedia; accessed: number }> = [];
+    for (const name of names) {
+      const file = path.join(this.directory, name);
+      // Leftovers from interrupted writes: temp bodies and bodies without metadata
+      if (name.endsWith(".tmp") || (name.endsWith(".bin") && !names.includes(name.replace(/\.bin$/, ".json")))) {
+        await rm(file, { force: true });
+        continue;
+      }
+      if (!name.endsWith(".json")) continue;
+      try {
+        const entry = JSON.parse(await readFile(file, "utf8")) as CachedMedia;
+        const info = await stat(this.bodyPath(entry.key));
+        if (entry.expiresAt <= Date.now() || info.size !== entry.size) throw new Error("stale");
+        found.push({ entry, accessed: info.atimeMs });
+      } catch {
+        await rm(file, { force: true });
+        await rm(file.replace(/\.json$/, ".bin"), { force: true });
+      }
+    }
+    found.sort((a, b) => a.accessed - b.accessed);
+    for (const { entry } of found) this.track(entry);
+    await this.evict();
+  }
+
+  private bodyPath(key: string): string {
+    return path.join(this.directory, `${hashKey(key)}.bin`);
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.directory, `${hashKey(key)}.json`);
+  }
+}
+
+let cache: MediaCache | null = createDefaultCache();
+
+export function setMediaCache(next: MediaCache | null): void {
+  cache = next;
+}
+
+export function getMediaCache(): MediaCache | null {
+  return cache;
+}
+
+/**
+ * Fetches a CDN media URL, answering from the cache when possible and
+ * filling it as the caller reads the response.
+ */
+export async function fetchMedia(url: string, fetchImpl: FetchLike = httpClient): Promise<Response> {
+  if (cache) {
+    const hit = await cache.get(url);
+    if (hit) return cachedResponse(cache, hit);
+  }
+
+  const upstream = await fetchImpl(url);
+  // fetch() has already decoded compressed bodies, so their length can't be checked
+  if (!cache || upstream.status !== 200 || !upstream.body || upstream.headers.has("content-encoding")) {
+    return upstream;
+  }
+  const writer = await cache.startWrite(url, upstream.headers);
+  if (!writer) return upstream;
+  return new Response(cachingBody(upstream.body, writer), { status: upstream.status, headers: upstream.headers });
+}
+
+// Reads upstream only as fast as the caller does, copying each chunk to the
+// cache on the way, so a slow client never leaves the body buffered in memory
+function cachingBody(body: ReadableStream<Uint8Array>, writer: MediaCacheWriter): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let caching = true;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (err) {
+        caching = false;
+        await writer.abort();
+        controller.error(err);
+        return;
+      }
+      if (result.done) {
+        if (caching) await writer.commit();
+        controller.close();
+        return;
+      }
+      if (caching) caching = await writer.write(result.value);
+      controller.enqueue(result.value);
+    },
+    async cancel(reason) {
+      // The client went away; a partial body is no use to the next one
+      caching = false;
+      await writer.abort();
+      await reader.cancel(reason);
+    },
+  });
+}
+
+function cachedResponse(store: MediaCache, entry: CachedMedia): Response {
+  const headers = new Headers({
+    "Content-Type": entry.contentType,
+    "Content-Length": String(entry.size),
+    "Accept-Ranges": "bytes",
+  });
+  if (entry.etag) headers.set("ETag", entry.etag);
+  if (entry.lastModified) headers.set("Last-Modified", entry.lastModified);
+  return new Response(store.read(entry), { status: 200, headers });
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function createDefaultCache(): MediaCache | null {
+  if (process.env.MEDIA_CACHE_BACKEND === "none") return null;
+  return new MediaCache(
+    process.env.MEDIA_CACHE_DIR ?? path.join(process.cwd(), ".cache", "media"),
+    readNumberEnv("MEDIA_CACHE_MAX_BYTES", DEFAULT_MAX_BYTES),
+  );
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -1,19 +1,20 @@
-import type { MediaItem } from "./types";
+import type { FetchLike, ImageFormat, MediaItem, PromotionDiagnostic } from "./types";
 import { isAllowedProxyUrl, decodeEfgTag } from "./instagram-cdn";
+import { httpClient } from "./http-client";
+import type { DiagnosticsRecorder } from "./diagnostics";
+import { probeVideoInfo } from "./mp4";
 
-const FETCH_TIMEOUT_MS = 10_000;
-
-async function fetchWithTimeout(url: string, init?: RequestInit): Promise<Response> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-  try {
-    return await fetch(url, { ...init, signal: controller.signal });
-  } finally {
-    clearTimeout(timeout);
-  }
+export interface ImageInfo {
+  width: number;
+  height: number;
+  format: ImageFormat;
 }
 
-export async function enrichMediaItems(items: MediaItem[]): Promise<void> {
+export async function enrichMediaItems(
+  items: MediaItem[],
+  fetchImpl: FetchLike = httpClient,
+  diagnostics?: DiagnosticsRecorder,
+): Promise<void> {
   await Promise.all(
     items.map(async (item) => {
       if (item.type === "image") {
@@ -21,18 +22,26 @@ export async function enrichMediaItems(items: MediaItem[]): Promise<void> {
         const target = item.width && item.height
           ? { width: item.width, height: item.height }
           : undefined;
-        const promoted = await promoteImageUrl(item.url, target);
+        const promotion = diagnostics?.startPromotion(item.url);
+        const promoted = await promoteImageUrl(item.url, fetchImpl, target, promotion);
         item.url = promoted.url;
         item.thumbnail = item.url;
-        if (promoted.dims) {
-          item.width = promoted.dims.width;
-          item.height = promoted.dims.height;
-        } else {
-          const probed = await probeImageDimensions(item.url);
-          if (probed) {
-            item.width = probed.width;
-            item.height = probed.height;
-          }
+        const probed = promoted.dims ?? await probeImageDimensions(item.url, fetchImpl);
+        if (probed) {
+          item.width = probed.width;
+          item.height = probed.height;
+          item.format = probed.format;
+        }
+      }
+      if (item.type === "video") {
+        // The container knows the real encode; URL tags and API sizes are only hints
+        const video = await probeVideoInfo(item.url, fetchImpl);
+        if (video) {
+          item.width = video.width;
+          item.height = video.height;
+          item.duration = video.duration;
+          if (video.codec) item.codec = video.codec;
+          if (video.bitrate) item.bitrate = video.bitrate;
         }
       }
       if (!item.width || !item.height) {
@@ -42,15 +51,15 @@ export async function enrichMediaItems(items: MediaItem[]): Promise<void> {
           item.height = inferred.height;
         }
       }
-      item.filesize = await fetchFileSize(item.url);
+      item.filesize = await fetchFileSize(item.url, fetchImpl);
     }),
   );
 }
 
-async function fetchFileSize(url: string): Promise<number> {
+async function fetchFileSize(url: string, fetchImpl: FetchLike): Promise<number> {
   if (!isAllowedProxyUrl(url)) return 0;
   try {
-    const res = await fetchWithTimeout(url, { method: "HEAD" });
+    const res = await fetchImpl(url, { method: "HEAD" });
     if (!res.ok) return 0;
     const length = res.headers.get("content-length");
     return length ? Number(length) : 0;
@@ -61,14 +70,16 @@ async function fetchFileSize(url: string): Promise<number> {
 
 async function promoteImageUrl(
   url: string,
+  fetchImpl: FetchLike,
   targetDimensions?: { width: number; height: number },
-): Promise<{ url: string; dims?: { width: number; height: number } }> {
+  promotion?: PromotionDiagnostic,
+): Promise<{ url: string; dims?: ImageInfo }> {
   let current = url;
   if (isInstagramMediaUrl(current)) {
-    const resolved = await resolveLegacyImageUrl(current);
+    const resolved = await resolveLegacyImageUrl(current, fetchImpl);
     if (resolved) current = resolved;
   }
-  const upgraded = await tryUpgradeSize(current, targetDimensions);
+  const upgraded = await tryUpgradeSize(current, fetchImpl, targetDimensions, promotion);
   if (upgraded) return upgraded;
   return { url: current };
 }
@@ -82,9 +93,9 @@ function isInstagramMediaUrl(url: string): boolean {
   }
 }
 
-async function resolveLegacyImageUrl(url: string): Promise<string | null> {
+async function resolveLegacyImageUrl(url: string, fetchImpl: FetchLike): Promise<string | null> {
   try {
-    const res = await fetchWithTimeout(url, { headers: { "User-Agent": "Mozilla/5.0" } });
+    const res = await fetchImpl(url);
     const contentType = res.headers.get("content-type") ?? "";
     if (!res.ok || !contentType.startsWith("image/")) return null;
     const finalUrl = res.url || url;
@@ -131,27 +142,33 @@ function buildCandidateUrl(
 
 async function tryUpgradeSize(
   url: string,
+  fetchImpl: FetchLike,
   targetDimensions?: { width: number; height: number },
-): Promise<{ url: string; dims: { width: number; height: number } } | null> {
+  promotion?: PromotionDiagnostic,
+): Promise<{ url: string; dims: ImageInfo } | null> {
+  const skip = (reason: string) => {
+    if (promotion) promotion.skipped = reason;
+    return null;
+  };
   let parsed: URL;
   try {
     parsed = new URL(url);
   } catch {
-    return null;
+    return skip("invalid URL");
   }
   const stp = parsed.searchParams.get("stp");
-  if (!stp) return null;
+  if (!stp) return skip("no stp parameter");
 
   const tokens = stp.split("_");
   const sizeIndex = tokens.findIndex((token) => /^(p|s)\d+x\d+$/.test(token));
-  if (sizeIndex === -1) return null;
+  if (sizeIndex === -1) return skip("no size token in stp");
 
   const match = /^(p|s)(\d+)x(\d+)$/.exec(tokens[sizeIndex]);
-  if (!match) return null;
+  if (!match) return skip("no size token in stp");
   const [, prefix, widthRaw, heightRaw] = match;
   const origW = Number(widthRaw);
   const origH = Number(heightRaw);
-  if (!origW || !origH) return null;
+  if (!origW || !origH) return skip("zero size token");
 
   // Build candidate sizes: efg dimensions, target dimensions, tiers, remove size
   const candidates: Array<{ w: number; h: number; prefix: string } | "remove"> = [];
@@ -187,31 +204,42 @@ async function tryUpgradeSize(
     const probeUrl = buildCandidateUrl(parsed, tokens, sizeIndex, candidate);
     if (seen.has(probeUrl)) continue;
     seen.add(probeUrl);
-    const result = await probeImageUrl(probeUrl);
-    if (!result) continue;
-    if (seenResults.has(result)) continue;
+    const result = await probeImageUrl(probeUrl, fetchImpl);
+    if (!result) {
+      promotion?.candidates.push({ url: probeUrl, outcome: "unreachable" });
+      continue;
+    }
+    if (seenResults.has(result)) {
+      promotion?.candidates.push({ url: probeUrl, outcome: "duplicate" });
+      continue;
+    }
     seenResults.add(result);
 
     // Require verified improvement — no unverified "trust CDN" fallback
-    const dims = await probeImageDimensions(result);
-    if (!dims || dims.width <= origW) continue;
+    const dims = await probeImageDimensions(result, fetchImpl);
+    if (!dims || dims.width <= origW) {
+      promotion?.candidates.push({ url: probeUrl, outcome: "not-larger", ...dims });
+      continue;
+    }
+    promotion?.candidates.push({ url: probeUrl, outcome: "chosen", ...dims });
+    if (promotion) promotion.chosen = result;
     return { url: result, dims };
   }
 
   return null;
 }
 
-async function probeImageUrl(url: string): Promise<string | null> {
+async function probeImageUrl(url: string, fetchImpl: FetchLike): Promise<string | null> {
   if (!isAllowedProxyUrl(url)) return null;
   try {
-    const res = await fetchWithTimeout(url, { method: "HEAD", headers: { "User-Agent": "Mozilla/5.0" } });
+    const res = await fetchImpl(url, { method: "HEAD" });
     const contentType = res.headers.get("content-type") ?? "";
     const finalUrl = res.url || url;
     if (res.ok && contentType.startsWith("image/") && isAllowedProxyUrl(finalUrl)) return finalUrl;
   } catch { /* try GET fallback */ }
 
   try {
-    const res = await fetchWithTimeout(url, { headers: { "User-Agent": "Mozilla/5.0", Range: "bytes=0-0" } });
+    const res = await fetchImpl(url, { headers: { Range: "bytes=0-0" } });
     const contentType = res.headers.get("content-type") ?? "";
     const finalUrl = res.url || url;
     if (res.ok && contentType.startsWith("image/") && isAllowedProxyUrl(finalUrl)) {
@@ -235,10 +263,13 @@ function inferDimensionsFromUrl(url: string): { width: number; height: number }
   }
 }
 
-export async function probeImageDimensions(url: string): Promise<{ width: number; height: number } | null> {
+export async function probeImageDimensions(
+  url: string,
+  fetchImpl: FetchLike = httpClient,
+): Promise<ImageInfo | null> {
   if (!isAllowedProxyUrl(url)) return null;
   try {
-    const res = await fetchWithTimeout(url, { headers: { "User-Agent": "Mozilla/5.0", Range: "bytes=0-4095" } });
+    const res = await fetchImpl(url, { headers: { Range: "bytes=0-4095" } });
     if (!res.ok) return null;
     const buffer = Buffer.from(await res.arrayBuffer());
     return parseImageDimensions(buffer);
@@ -247,21 +278,28 @@ export async function probeImageDimensions(url: string): Promise<{ width: number
   }
 }
 
-function parseImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+/** Reads dimensions and container format from the first few KB of an image. */
+export function parseImageDimensions(buffer: Buffer): ImageInfo | null {
   if (buffer.length < 10) return null;
-  return parsePngDimensions(buffer) ?? parseJpegDimensions(buffer);
+  return (
+    parsePngDimensions(buffer) ??
+    parseJpegDimensions(buffer) ??
+    parseWebpDimensions(buffer) ??
+    parseGifDimensions(buffer) ??
+    parseHeifDimensions(buffer)
+  );
 }
 
-function parsePngDimensions(buffer: Buffer): { width: number; height: number } | null {
+function parsePngDimensions(buffer: Buffer): ImageInfo | null {
   if (buffer.length < 24) return null;
   if (buffer.slice(0, 8).toString("hex") !== "89504e470d0a1a0a") return null;
   if (buffer.slice(12, 16).toString("ascii") !== "IHDR") return null;
   const width = buffer.readUInt32BE(16);
   const height = buffer.readUInt32BE(20);
-  return width && height ? { width, height } : null;
+  return width && height ? { width, height, format: "png" } : null;
 }
 
-function parseJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+function parseJpegDimensions(buffer: Buffer): ImageInfo | null {
   if (buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
   let offset = 2;
   while (offset + 4 < buffer.length) {
@@ -281,9 +319,102 @@ function parseJpegDimensions(buffer: Buffer): { width: number; height: number }
       if (offset + 7 > buffer.length) break;
       const height = buffer.readUInt16BE(offset + 3);
       const width = buffer.readUInt16BE(offset + 5);
-      return width && height ? { width, height } : null;
+      return width && height ? { width, height, format: "jpeg" } : null;
     }
     offset += length;
   }
   return null;
 }
+
+// RIFF container; the first chunk says which of the three bitstream flavours follows
+function parseWebpDimensions(buffer: Buffer): ImageInfo | null {
+  if (buffer.length < 30) return null;
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WEBP") return null;
+  const chunk = buffer.toString("ascii", 12, 16);
+  let width = 0;
+  let height = 0;
+  if (chunk === "VP8X") {
+    // Extended format: 24-bit canvas size minus one
+    width = buffer.readUIntLE(24, 3) + 1;
+    height = buffer.readUIntLE(27, 3) + 1;
+  } else if (chunk === "VP8 ") {
+    // Lossy: keyframe start code, then 14-bit sizes (top bits are scaling)
+    if (buffer[23] !== 0x9d || buffer[24] !== 0x01 || buffer[25] !== 0x2a) return null;
+    width = buffer.readUInt16LE(26) & 0x3fff;
+    height = buffer.readUInt16LE(28) & 0x3fff;
+  } else if (chunk === "VP8L") {
+    // Lossless: signature byte, then two 14-bit sizes minus one, bit-packed
+    if (buffer[20] !== 0x2f) return null;
+    const bits = buffer.readUInt32LE(21);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+  }
+  return width && height ? { width, height, format: "webp" } : null;
+}
+
+function parseGifDimensions(buffer: Buffer): ImageInfo | null {
+  const signature = buffer.toString("ascii", 0, 6);
+  if (signature !== "GIF87a" && signature !== "GIF89a") return null;
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  return width && height ? { width, height, format: "gif" } : null;
+}
+
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIC_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"]);
+
+// ISO-BMFF (HEIF/AVIF): brand from `ftyp`, size from the `ispe` properties in meta/iprp/ipco
+function parseHeifDimensions(buffer: Buffer): ImageInfo | null {
+  const ftyp = readBox(buffer, 0);
+  if (!ftyp || ftyp.type !== "ftyp") return null;
+  const brands = [buffer.toString("ascii", ftyp.start, ftyp.start + 4)];
+  for (let offset = ftyp.start + 8; offset + 4 <= ftyp.end; offset += 4) {
+    brands.push(buffer.toString("ascii", offset, offset + 4));
+  }
+  // mif1 is the generic HEIF brand; AVIF files carry it too, alongside `avif`
+  const format: ImageFormat | null = brands.some((brand) => AVIF_BRANDS.has(brand))
+    ? "avif"
+    : brands.some((brand) => HEIC_BRANDS.has(brand)) ? "heic" : null;
+  if (!format) return null;
+
+  // meta is a full box: skip its version and flags
+  const meta = findBox(buffer, ftyp.end, buffer.length, "meta");
+  const iprp = meta && findBox(buffer, meta.start + 4, meta.end, "iprp");
+  const ipco = iprp && findBox(buffer, iprp.start, iprp.end, "ipco");
+  if (!ipco) return null;
+
+  // Thumbnails and grid tiles have their own ispe; the primary image is the largest
+  let best: { width: number; height: number } | null = null;
+  for (let box = readBox(buffer, ipco.start); box && box.end <= ipco.end; box = readBox(buffer, box.end)) {
+    if (box.type !== "ispe" || box.start + 12 > box.end) continue;
+    const width = buffer.readUInt32BE(box.start + 4);
+    const height = buffer.readUInt32BE(box.start + 8);
+    if (!best || width * height > best.width * best.height) best = { width, height };
+  }
+  return best && best.width && best.height ? { ...best, format } : null;
+}
+
+function findBox(buffer: Buffer, from: number, to: number, type: string): { start: number; end: number } | null {
+  for (let box = readBox(buffer, from); box && box.end <= to; box = readBox(buffer, box.end)) {
+    if (box.type === type) return box;
+  }
+  return null;
+}
+
+// Returns the box's payload range; null when the header runs past what was fetched
+function readBox(buffer: Buffer, offset: number): { type: string; start: number; end: number } | null {
+  if (offset + 8 > buffer.length) return null;
+  let size = buffer.readUInt32BE(offset);
+  const type = buffer.toString("ascii", offset + 4, offset + 8);
+  let start = offset + 8;
+  if (size === 1) {
+    if (offset + 16 > buffer.length) return null;
+    size = Number(buffer.readBigUInt64BE(offset + 8));
+    start = offset + 16;
+  } else if (size === 0) {
+    size = buffer.length - offset;
+  }
+  if (size < start - offset) return null;
+  // Boxes often run past the probed range; their readable part is still useful
+  return { type, start, end: Math.min(offset + size, buffer.length) };
+}
@@ -0,0 +1,204 @@
+import { httpClient } from "./http-client";
+import { isAllowedProxyUrl } from "./instagram-cdn";
+import type { FetchLike } from "./types";
+
+/**
+ * Reads video properties from an MP4's `moov` box without downloading the
+ * media: resolution from the video track's `tkhd`, duration from `mvhd`,
+ * codec from the `stsd` sample entry, and the average bitrate from the file
+ * size. Faststart files need one ranged request; otherwise the top-level box
+ * headers are followed (skipping over `mdat`) until `moov` turns up.
+ */
+
+export interface VideoInfo {
+  width: number;
+  height: number;
+  /** Seconds. */
+  duration: number;
+  /** Sample entry fourcc, e.g. `avc1`, `hvc1`, `av01`. */
+  codec?: string;
+  /** Average bits per second over the whole file, when its size is known. */
+  bitrate?: number;
+}
+
+interface Box {
+  type: string;
+  /** Payload range, relative to the buffer the box was read from. */
+  start: number;
+  end: number;
+}
+
+const HEAD_BYTES = 64 * 1024;
+const MAX_MOOV_BYTES = 8 * 1024 * 1024;
+const MAX_TOP_LEVEL_HOPS = 8;
+
+export async function probeVideoInfo(url: string, fetchImpl: FetchLike = httpClient): Promise<VideoInfo | null> {
+  if (!isAllowedProxyUrl(url)) return null;
+  try {
+    const head = await fetchRange(url, 0, HEAD_BYTES - 1, fetchImpl);
+    if (!head) return null;
+    const total = head.total;
+
+    let chunk = head.bytes;
+    let chunkOffset = 0;
+    let offset = 0;
+    for (let hop = 0; hop < MAX_TOP_LEVEL_HOPS; hop++) {
+      // Box headers beyond what we hold (typically after a large mdat) cost one small request each
+      if (offset + 16 > chunkOffset + chunk.length) {
+        if (total !== undefined && offset >= total) return null;
+        const next = await fetchRange(url, offset, offset + 15, fetchImpl);
+        if (!next) return null;
+        chunk = next.bytes;
+        chunkOffset = offset;
+      }
+      const header = readBoxHeader(chunk, offset - chunkOffset);
+      if (!header) return null;
+      const size = header.size ?? (total !== undefined ? total - offset : 0);
+      if (!size) return null;
+
+      if (header.type === "moov") {
+        if (size > MAX_MOOV_BYTES) return null;
+        let moov = chunk.subarray(offset - chunkOffset, offset - chunkOffset + size);
+        if (moov.length < size) {
+          const full = await fetchRange(url, offset, offset + size - 1, fetchImpl);
+          if (!full || full.bytes.length < size) return null;
+          moov = full.bytes;
+        }
+        return parseMoov(moov, total);
+      }
+      offset += size;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parses a complete `moov` box (header included). */
+export function parseMoov(moov: Buffer, fileSize?: number): VideoInfo | null {
+  const root = readBox(moov, 0);
+  if (!root || root.type !== "moov") return null;
+
+  const mvhd = findChild(moov, root, "mvhd");
+  const duration = mvhd ? readMovieDuration(moov, mvhd) : 0;
+
+  for (const trak of children(moov, root).filter((box) => box.type === "trak")) {
+    const mdia = findChild(moov, trak, "mdia");
+    const hdlr = mdia && findChild(moov, mdia, "hdlr");
+    if (!hdlr || moov.toString("ascii", hdlr.start + 8, hdlr.start + 12) !== "vide") continue;
+
+    const tkhd = findChild(moov, trak, "tkhd");
+    const stsd = findPath(moov, mdia, ["minf", "stbl", "stsd"]);
+    // stsd is a full box with an entry count; the first sample entry names the codec
+    const entry = stsd && stsd.start + 8 < stsd.end ? readBox(moov, stsd.start + 8) : null;
+
+    let { width, height } = tkhd ? readTrackSize(moov, tkhd) : { width: 0, height: 0 };
+    if ((!width || !height) && entry && entry.start + 28 <= entry.end) {
+      // Coded size from the visual sample entry, for files without a display size
+      width = moov.readUInt16BE(entry.start + 24);
+      height = moov.readUInt16BE(entry.start + 26);
+    }
+    if (!width || !height) continue;
+
+    return {
+      width,
+      height,
+      duration,
+      ...(entry ? { codec: entry.type } : {}),
+      ...(fileSize && duration > 0 ? { bitrate: Math.round((fileSize * 8) / duration) } : {}),
+    };
+  }
+  return null;
+}
+
+function readMovieDuration(buffer: Buffer, mvhd: Box): number {
+  const version = buffer[mvhd.start];
+  const timescaleOffset = mvhd.start + (version === 1 ? 20 : 12);
+  if (timescaleOffset + (version === 1 ? 12 : 8) > mvhd.end) return 0;
+  const timescale = buffer.readUInt32BE(timescaleOffset);
+  const duration = version === 1
+    ? Number(buffer.readBigUInt64BE(timescaleOffset + 4))
+    : buffer.readUInt32BE(timescaleOffset + 4);
+  return timescale ? duration / timescale : 0;
+}
+
+// Display size is stored as 16.16 fixed point at the end of tkhd
+function readTrackSize(buffer: Buffer, tkhd: Box): { width: number; height: number } {
+  const offset = tkhd.start + (buffer[tkhd.start] === 1 ? 88 : 76);
+  if (offset + 8 > tkhd.end) return { width: 0, height: 0 };
+  return { width: buffer.readUInt32BE(offset) >>> 16, height: buffer.readUInt32BE(offset + 4) >>> 16 };
+}
+
+function children(buffer: Buffer, parent: Box): Box[] {
+  const boxes: Box[] = [];
+  for (let box = readBox(buffer, parent.start); box && box.end <= parent.end; box = readBox(buffer, box.end)) {
+    boxes.push(box);
+  }
+  return boxes;
+}
+
+function findChild(buffer: Buffer, parent: Box, type: string): Box | null {
+  return children(buffer, parent).find((box) => box.type === type) ?? null;
+}
+
+function findPath(buffer: Buffer, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = findChild(buffer, current, type);
+  }
+  return current;
+}
+
+function readBox(buffer: Buffer, offset: number): Box | null {
+  const header = readBoxHeader(buffer, offset);
+  if (!header) return null;
+  const size = header.size ?? buffer.length - offset;
+  if (size < header.headerSize || offset + size > buffer.length) return null;
+  return { type: header.type, start: offset + header.headerSize, end: offset + size };
+}
+
+// `size` is undefined for a box that runs to the end of the file
+function readBoxHeader(buffer: Buffer, offset: number): { type: string; size?: number; headerSize: number } | null {
+  if (offset < 0 || offset + 8 > buffer.length) return null;
+  const size = buffer.readUInt32BE(offset);
+  const type = buffer.toString("ascii", offset + 4, offset + 8);
+  if (size === 1) {
+    if (offset + 16 > buffer.length) return null;
+    return { type, size: Number(buffer.readBigUInt64BE(offset + 8)), headerSize: 16 };
+  }
+  if (size === 0) return { type, headerSize: 8 };
+  return size < 8 ? null : { type, size, headerSize: 8 };
+}
+
+// Servers that ignore Range would send the whole video; read only what was asked for
+async function fetchRange(
+  url: string,
+  start: number,
+  end: number,
+  fetchImpl: FetchLike,
+): Promise<{ bytes: Buffer; total?: number } | null> {
+  const res = await fetchImpl(url, { headers: { Range: `bytes=${start}-${end}` } });
+  if (!res.ok || !res.body) return null;
+  if (res.status !== 206 && start > 0) {
+    await res.body.cancel();
+    return null;
+  }
+
+  const wanted = end - start + 1;
+  const chunks: Buffer[] = [];
+  let received = 0;
+  const reader = res.body.getReader();
+  while (received < wanted) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+    received += value.byteLength;
+  }
+  if (received >= wanted) await reader.cancel();
+
+  const total = res.status === 206
+    ? Number(/\/(\d+)\s*$/.exec(res.headers.get("content-range") ?? "")?.[1]) || undefined
+    : Number(res.headers.get("content-length")) || undefined;
+  return { bytes: Buffer.concat(chunks).subarray(0, wanted), total };
+}
@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "fs/promises";
+import path from "path";
+import type { ExtractedMedia } from "./instagram";
+import { parseCdnExpiry } from "./instagram-cdn";
+
+/**
+ * Cache for extracted post media, keyed by shortcode. Entries never outlive
+ * the earliest `oe=` expiry among their signed CDN URLs, nor a story's own
+ * expiry. Either store keeps at most POST_CACHE_MAX_ENTRIES posts, dropping
+ * the least recently used.
+ */
+
+export interface PostCacheEntry {
+  value: ExtractedMedia;
+  expiresAt: number;
+}
+
+export interface PostCacheStore {
+  get(key: string): Promise<PostCacheEntry | null>;
+  set(key: string, entry: PostCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 200;
+// Signed URLs are dropped a little before Instagram stops honouring them so a
+// cached preview can't hand out a URL that expires mid-download.
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+export class MemoryPostCacheStore implements PostCacheStore {
+  private entries = new Map<string, PostCacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<PostCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: PostCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/** One JSON file per post; a file's mtime records when the post was last used. */
+export class FilePostCacheStore implements PostCacheStore {
+  constructor(private directory: string, private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<PostCacheEntry | null> {
+    try {
+      const file = this.filePath(key);
+      const entry = JSON.parse(await readFile(file, "utf8")) as PostCacheEntry;
+      if (typeof entry?.expiresAt !== "number" || !entry.value) return null;
+      await touch(file);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: PostCacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entry), "utf8");
+    await rename(temp, target);
+    await touch(target);
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string): string {
+    const name = createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  private async evict(): Promise<void> {
+    const names = (await readdir(this.directory)).filter((name) => name.endsWith(".json"));
+    if (names.length <= this.maxEntries) return;
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.directory, name);
+        return { file, usedAt: (await stat(file).catch(() => null))?.mtimeMs ?? 0 };
+      }),
+    );
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    await Promise.all(files.slice(0, files.length - this.maxEntries).map(({ file }) => rm(file, { force: true })));
+  }
+}
+
+let store: PostCacheStore | null = createDefaultStore();
+
+export function setPostCacheStore(next: PostCacheStore | null): void {
+  store = next;
+}
+
+export async function getCachedPost(shortcode: string): Promise<ExtractedMedia | null> {
+  if (!store) return null;
+  try {
+    const entry = await store.get(shortcode);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await store.delete(shortcode);
+      return null;
+    }
+    return structuredClone(entry.value);
+  } catch {
+    return null;
+  }
+}
+
+export async function cachePost(shortcode: string, value: ExtractedMedia): Promise<void> {
+  if (!store) return;
+  const expiresAt = computeExpiry(value);
+  if (expiresAt <= Date.now()) return;
+  try {
+    await store.set(shortcode, { value: structuredClone(value), expiresAt });
+  } catch { /* caching is best-effort */ }
+}
+
+function computeExpiry(value: ExtractedMedia): number {
+  let expiresAt = Date.now() + readNumberEnv("POST_CACHE_TTL_MS", DEFAULT_TTL_MS);
+  for (const item of value.items) {
+    for (const url of [item.url, item.thumbnail]) {
+      const oe = parseCdnExpiry(url);
+      if (oe !== null) expiresAt = Math.min(expiresAt, oe - EXPIRY_MARGIN_MS);
+    }
+    if (item.expiresAt) expiresAt = Math.min(expiresAt, item.expiresAt);
+  }
+  return expiresAt;
+}
+
+function createDefaultStore(): PostCacheStore | null {
+  const backend = process.env.POST_CACHE_BACKEND ?? "memory";
+  if (backend === "none") return null;
+  const maxEntries = readNumberEnv("POST_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES);
+  if (backend === "fs") {
+    return new FilePostCacheStore(process.env.POST_CACHE_DIR ?? path.join(process.cwd(), ".cache", "posts"), maxEntries);
+  }
+  return new MemoryPostCacheStore(maxEntries);
+}
+
+// Marks a cache file as just used, for eviction
+async function touch(file: string): Promise<void> {
+  const now = new Date();
+  await utimes(file, now, now);
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
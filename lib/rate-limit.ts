@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { NextResponse } from "next/server";
+import type { ApiResponse } from "./types";
+
+/**
+ * Per-client token buckets for the API routes. Clients are identified by API
+ * key when they send one listed in RATE_LIMIT_API_KEYS, otherwise by the IP
+ * the trusted proxies in front of the app saw (RATE_LIMIT_TRUSTED_PROXY_HOPS).
+ * Without a trusted proxy the client's IP can't be told (see
+ * DEFAULT_TRUSTED_PROXY_HOPS), so anonymous clients share one bucket. Buckets
+ * live in a pluggable store: memory by default, or anything shared (e.g.
+ * Redis) across instances.
+ */
+
+export type RateLimitScope = "api" | "proxy";
+
+export interface RateLimitPolicy {
+  /** Burst size: tokens available to an idle client. */
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Time until `cost` tokens are available again; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  /** Refills the bucket for elapsed time and takes `cost` tokens if available, atomically. */
+  take(key: string, cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>;
+}
+
+// Previews and downloads each fan out to several Instagram requests; the proxy
+// mostly serves thumbnails, many per preview.
+const DEFAULT_POLICIES: Record<RateLimitScope, RateLimitPolicy> = {
+  api: { capacity: 20, refillPerMinute: 30 },
+  proxy: { capacity: 200, refillPerMinute: 600 },
+};
+const MAX_TRACKED_CLIENTS = 10_000;
+// None unless configured: Next.js only fills in X-Forwarded-For from the socket
+// when the request arrives without one, so with `next start` facing clients
+// directly the header is whatever the client sent, and route handlers don't
+// see the socket address at all
+const DEFAULT_TRUSTED_PROXY_HOPS = 0;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** The policy the bucket was last charged under, so pruning refills it at its own rate. */
+  policy: RateLimitPolicy;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  async take(key: string, cost: number, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const refillPerMs = policy.refillPerMinute / 60_000;
+    const bucket = this.buckets.get(key) ?? { tokens: policy.capacity, updatedAt: now, policy };
+    bucket.tokens = Math.min(policy.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    bucket.policy = policy;
+
+    const allowed = bucket.tokens >= cost;
+    if (allowed) bucket.tokens -= cost;
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > MAX_TRACKED_CLIENTS) this.prune(now);
+
+    return {
+      allowed,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - bucket.tokens) / refillPerMs),
+    };
+  }
+
+  // Drops buckets that have refilled completely; they're equivalent to new ones
+  private prune(now: number): void {
+    for (const [key, { tokens, updatedAt, policy }] of this.buckets) {
+      if (tokens + ((now - updatedAt) * policy.refillPerMinute) / 60_000 >= policy.capacity) this.buckets.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore | null = process.env.RATE_LIMIT_BACKEND === "none" ? null : new MemoryRateLimitStore();
+
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+export function getClientKey(headers: Headers): string {
+  const hashed = configuredApiKey(headers);
+  return hashed ? `key:${hashed}` : `ip:${clientAddress(headers) ?? "unknown"}`;
+}
+
+/** Whether the request carries one of the keys listed in RATE_LIMIT_API_KEYS. */
+export function hasApiKey(headers: Headers): boolean {
+  return configuredApiKey(headers) !== undefined;
+}
+
+/**
+ * Takes `cost` tokens for the requesting client. Returns a 429 response to
+ * send back when the client is over its limit, or null to carry on.
+ */
+export async function enforceRateLimit(
+  request: Request,
+  scope: RateLimitScope,
+  cost = 1,
+): Promise<NextResponse<ApiResponse> | null> {
+  if (!store) return null;
+  const policy = readPolicy(scope);
+  const key = `${scope}:${getClientKey(request.headers)}`;
+  let result: RateLimitResult;
+  try {
+    // A cost above the burst size could never be paid; charge a full bucket instead
+    result = await store.take(key, Math.min(cost, policy.capacity), policy, Date.now());
+  } catch {
+    // A broken shared store shouldn't take the whole API down with it
+    return null;
+  }
+  if (result.allowed) return null;
+
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  return NextResponse.json<ApiResponse>(
+    { status: "error", items: [], error: `Too many requests. Try again in ${retryAfter} seconds.` },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  );
+}
+
+// Each trusted proxy appends the address it got the request from, so the client
+// is that many entries from the right; anything further left is the client's own claim
+function clientAddress(headers: Headers): string | undefined {
+  const hops = readNumberEnv("RATE_LIMIT_TRUSTED_PROXY_HOPS", DEFAULT_TRUSTED_PROXY_HOPS);
+  if (hops === 0) return undefined;
+  const entries = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length >= hops ? entries[entries.length - hops] : undefined;
+}
+
+// The hashed API key the request sends, if it's a configured one; an unknown key
+// would otherwise buy a fresh bucket per made-up value
+function configuredApiKey(headers: Headers): string | undefined {
+  const apiKey = headers.get("x-api-key") ?? /^Bearer\s+(.+)$/i.exec(headers.get("authorization") ?? "")?.[1];
+  if (!apiKey) return undefined;
+  const hashed = hashApiKey(apiKey);
+  return configuredApiKeys().has(hashed) ? hashed : undefined;
+}
+
+function configuredApiKeys(): Set<string> {
+  const keys = (process.env.RATE_LIMIT_API_KEYS ?? "").split(",").map((key) => key.trim()).filter(Boolean);
+  return new Set(keys.map(hashApiKey));
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key.trim()).digest("hex").slice(0, 32);
+}
+
+function readPolicy(scope: RateLimitScope): RateLimitPolicy {
+  const prefix = `RATE_LIMIT_${scope.toUpperCase()}`;
+  const defaults = DEFAULT_POLICIES[scope];
+  return {
+    capacity: readNumberEnv(`${prefix}_CAPACITY`, defaults.capacity),
+    refillPerMinute: readNumberEnv(`${prefix}_PER_MINUTE`, defaults.refillPerMinute),
+  };
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
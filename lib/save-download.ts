@@ -0,0 +1,145 @@
+import type { ArchiveFormat } from "./archive-stream";
+import { applyJobEvent } from "./job-events";
+import { formatBytes } from "./format";
+import type { ApiResponse, JobEvent, JobSnapshot } from "./types";
+
+/**
+ * Browser-side helpers for the download routes: surface API errors, track
+ * progress when the response length is known, and hand the body to the
+ * browser as a file named by the server's Content-Disposition. Large
+ * downloads run as background jobs instead, followed over Server-Sent Events.
+ */
+
+// Download preferences remembered per browser (localStorage keys)
+export const FILENAME_TEMPLATE_KEY = "igvault.filenameTemplate";
+export const ZIP_TEMPLATE_KEY = "igvault.zipTemplate";
+export const ARCHIVE_FORMAT_KEY = "igvault.archiveFormat";
+
+/** The remembered naming and format options, shaped for the download request body. */
+export function readDownloadPreferences(): { filenameTemplate?: string; zipTemplate?: string; format?: ArchiveFormat } {
+  return {
+    filenameTemplate: localStorage.getItem(FILENAME_TEMPLATE_KEY)?.trim() || undefined,
+    zipTemplate: localStorage.getItem(ZIP_TEMPLATE_KEY)?.trim() || undefined,
+    format: (localStorage.getItem(ARCHIVE_FORMAT_KEY) as ArchiveFormat | null) ?? undefined,
+  };
+}
+
+export async function saveDownload(
+  res: Response,
+  fallbackName: string,
+  onProgress?: (fraction: number) => void,
+): Promise<void> {
+  if (!res.ok) {
+    const data = (await res.json()) as ApiResponse;
+    throw new Error(data.error ?? "Download failed.");
+  }
+
+  const blob = await readBody(res, onProgress);
+  const filename = getFilenameFromHeader(res.headers.get("content-disposition")) ?? fallbackName;
+
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(blobUrl);
+}
+
+const JOB_EVENT_TYPES: Array<JobEvent["type"]> = ["status", "strategy", "item", "post", "bytes", "done", "failed"];
+
+/**
+ * Starts a background job for a /api/download or /api/batch request body,
+ * reports its progress, and once it is done hands the finished file to the
+ * browser straight from the server.
+ */
+export async function runDownloadJob(body: object, onProgress?: (job: JobSnapshot) => void): Promise<void> {
+  const res = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = (await res.json()) as ApiResponse;
+  if (!res.ok || !data.job) throw new Error(data.error ?? "Download failed.");
+
+  let job = data.job;
+  onProgress?.(job);
+  await new Promise<void>((resolve, reject) => {
+    // EventSource reconnects by itself and the server resumes after the last event it saw
+    const source = new EventSource(`/api/jobs/${job.id}/events`);
+    const handle = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      job = applyJobEvent(job, event);
+      onProgress?.(job);
+      if (event.type === "done") {
+        source.close();
+        resolve();
+      } else if (event.type === "failed") {
+        source.close();
+        reject(new Error(event.error));
+      }
+    };
+    for (const type of JOB_EVENT_TYPES) source.addEventListener(type, handle);
+    source.onerror = () => {
+      // Only a refused connection (e.g. the job expired) is final
+      if (source.readyState !== EventSource.CLOSED) return;
+      reject(new Error("Lost track of the download. Try again."));
+    };
+  });
+
+  const link = document.createElement("a");
+  link.href = `/api/jobs/${job.id}/file`;
+  link.download = job.filename ?? "";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+/** One line for the progress of a running job. */
+export function describeJob(job: JobSnapshot): string {
+  const unit = job.kind === "batch" ? "post" : "item";
+  switch (job.status) {
+    case "queued":
+      return "Waiting for other downloads to finish...";
+    case "extracting":
+      return job.strategy && job.strategy.outcome !== "matched"
+        ? `Reading the post (${job.strategy.name} ${job.strategy.outcome === "failed" ? "failed" : "found nothing"}, trying another way)...`
+        : "Reading the post...";
+    case "downloading": {
+      const count = job.total ?? job.completed;
+      const counted = `${job.completed} of ${count} ${count === 1 ? unit : `${unit}s`} fetched`;
+      const failed = job.failed > 0 ? `, ${job.failed} failed` : "";
+      const written = job.bytesWritten > 0 ? ` \u00b7 ${formatBytes(job.bytesWritten)} written` : "";
+      return `${counted}${failed}${written}`;
+    }
+    case "done":
+      return `Finished: ${job.filename ?? "download"} (${formatBytes(job.size ?? job.bytesWritten)})`;
+    case "failed":
+      return job.error ?? "Download failed.";
+  }
+}
+
+function getFilenameFromHeader(header: string | null): string | null {
+  if (!header) return null;
+  const match = /filename="?([^";]+)"?/i.exec(header);
+  return match?.[1] ?? null;
+}
+
+// Reports progress only when the server sent a Content-Length to measure against
+async function readBody(res: Response, onProgress?: (fraction: number) => void): Promise<Blob> {
+  const total = Number(res.headers.get("content-length"));
+  if (!onProgress || !res.body || !(total > 0)) return res.blob();
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+    onProgress(Math.min(1, received / total));
+  }
+  return new Blob(chunks as BlobPart[], { type: res.headers.get("content-type") ?? undefined });
+}
@@ -1,5 +1,18 @@
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
 export type MediaType = "image" | "video";
 
+export type ImageFormat = "jpeg" | "png" | "webp" | "avif" | "heic" | "gif";
+
+export interface DashTrack {
+  url: string;
+  mimeType: string;
+  bandwidth: number;
+  codecs?: string;
+  width?: number;
+  height?: number;
+}
+
 export interface MediaItem {
   type: MediaType;
   url: string;
@@ -7,16 +20,157 @@ export interface MediaItem {
   width: number;
   height: number;
   filesize: number;
+  /** Best separate video/audio representations from the reel's DASH manifest. */
+  dash?: { video?: DashTrack; audio?: DashTrack };
+  /** Story items carry their own capture time (ms since epoch). */
+  takenAt?: number;
+  /** When a story stops being viewable on Instagram (ms since epoch). */
+  expiresAt?: number;
+  /** Image container detected from the file header, when it was probed. */
+  format?: ImageFormat;
+  /** Video length in seconds, read from the MP4 header. */
+  duration?: number;
+  /** Video sample entry fourcc, e.g. `avc1` (H.264) or `hvc1` (HEVC). */
+  codec?: string;
+  /** Average video bitrate in bits per second. */
+  bitrate?: number;
+}
+
+export type PostKind = "post" | "story" | "highlight";
+
+export interface PostMeta {
+  type: PostKind;
+  username?: string;
+  shortcode?: string;
+  postTimestamp?: number;
+  caption?: string;
+  hashtags?: string[];
+  mentions?: string[];
+  likeCount?: number;
+  commentCount?: number;
+  viewCount?: number;
+  location?: string;
+  isPaidPartnership?: boolean;
+}
+
+export interface ProfilePost {
+  shortcode: string;
+  url: string;
+  thumbnail: string;
+  type: MediaType | "carousel";
+  postTimestamp?: number;
+  caption?: string;
+}
+
+export interface ProfileResult {
+  username: string;
+  fullName?: string;
+  postCount?: number;
+  posts: ProfilePost[];
+  /** Opaque token for the next page of posts; absent on the last page. */
+  nextCursor?: string;
+}
+
+export interface HistoryEntry {
+  /** `kind:username:shortcode`; stable across previews and downloads of the same post. */
+  id: string;
+  url: string;
+  kind: PostKind;
+  shortcode?: string;
+  username?: string;
+  thumbnail?: string;
+  itemCount: number;
+  /** Bytes of the last download, or the probed sizes when only previewed. */
+  totalBytes: number;
+  /** Names of the files in the last download. */
+  filenames: string[];
+  previewedAt?: number;
+  downloadedAt?: number;
+  downloadCount: number;
+}
+
+export interface StrategyDiagnostic {
+  name: string;
+  outcome: "matched" | "empty" | "failed" | "skipped";
+  error?: string;
+  durationMs: number;
+}
+
+export interface RequestDiagnostic {
+  method: string;
+  url: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface PromotionCandidate {
+  url: string;
+  outcome: "chosen" | "unreachable" | "duplicate" | "not-larger";
+  width?: number;
+  height?: number;
+  format?: ImageFormat;
+}
+
+export interface PromotionDiagnostic {
+  url: string;
+  /** Why no candidates were tried, e.g. the URL carries no size token. */
+  skipped?: string;
+  candidates: PromotionCandidate[];
+  chosen?: string;
+}
+
+export interface ExtractionDiagnostics {
+  totalMs: number;
+  strategies: StrategyDiagnostic[];
+  requests: RequestDiagnostic[];
+  promotions: PromotionDiagnostic[];
+}
+
+export type JobKind = "download" | "batch";
+
+export type JobStatus = "queued" | "extracting" | "downloading" | "done" | "failed";
+
+/** Progress of a background job, as streamed by /api/jobs/:id/events. */
+export type JobEvent =
+  // `total` counts the files (posts, for a batch) the job will fetch, once known
+  | { type: "status"; status: JobStatus; total?: number }
+  | { type: "strategy"; name: string; outcome: StrategyDiagnostic["outcome"]; error?: string }
+  | { type: "item"; index: number; name: string; outcome: "written" | "duplicate" | "failed"; error?: string }
+  | { type: "post"; index: number; url: string; outcome: "ok" | "partial" | "failed" }
+  | { type: "bytes"; written: number }
+  | { type: "done"; filename: string; size: number; expiresAt: number }
+  | { type: "failed"; error: string };
+
+export interface JobSnapshot {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: number;
+  /** Last extraction strategy that finished. */
+  strategy?: { name: string; outcome: StrategyDiagnostic["outcome"] };
+  /** Files (posts, for a batch) settled so far, out of `total`. */
+  completed: number;
+  failed: number;
+  total?: number;
+  bytesWritten: number;
+  filename?: string;
+  size?: number;
+  /** When the finished file is deleted and the job forgotten. */
+  expiresAt?: number;
+  error?: string;
 }
 
 export interface ApiResponse {
   status: "ok" | "error";
   items: MediaItem[];
   error: string | null;
-  meta?: {
-    type: "post";
-    username?: string;
-    shortcode?: string;
-    postTimestamp?: number;
-  };
+  meta?: PostMeta;
+  profile?: ProfileResult;
+  history?: HistoryEntry[];
+  /** Total matching history entries, of which `history` is one page. */
+  historyTotal?: number;
+  job?: JobSnapshot;
+  /** Only present when the client asked for debug output. */
+  diagnostics?: ExtractionDiagnostics;
 }
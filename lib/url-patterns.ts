@@ -0,0 +1,8 @@
+// Client-safe URL checks for the input form; the server re-validates with
+// `normalizePostUrl` / `normalizeProfileUrl` in lib/instagram.ts.
+export const POST_URL_RE = /https?:\/\/(www\.)?instagram\.com\/((p|reel|tv)\/[^/]+|stories\/[^/?#]+)/i;
+export const PROFILE_URL_RE = /^https?:\/\/(www\.)?instagram\.com\/[A-Za-z0-9._]{1,30}\/?(\?.*)?$/i;
+
+export function isProfileInput(value: string): boolean {
+  return PROFILE_URL_RE.test(value.trim()) && !POST_URL_RE.test(value.trim());
+}
@@ -0,0 +1,218 @@
+import { createHash } from "crypto";
+import { readdir } from "fs/promises";
+import os from "os";
+import { gunzipSync } from "zlib";
+import { describe, expect, it, vi } from "vitest";
+import { UpstreamError } from "../lib/errors";
+import { CHECKSUMS_FILENAME, createArchiveStream, storedZipSize, type ArchiveEntrySource } from "../lib/archive-stream";
+import { readZip } from "./support/zip";
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createArchiveStream", () => {
+  it("fetches in parallel but writes entries in order", async () => {
+    let active = 0;
+    let peak = 0;
+    const entries: ArchiveEntrySource[] = [30, 5, 20, 1, 10].map((ms, i) => ({
+      name: `item_${i + 1}.txt`,
+      load: async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(ms);
+        active--;
+        return Buffer.from(`body ${i + 1}`);
+      },
+    }));
+
+    const zip = await collect(createArchiveStream(entries, { concurrency: 2 }));
+    expect(readZip(zip).slice(0, -1)).toEqual([1, 2, 3, 4, 5].map((n) => ({ name: `item_${n}.txt`, content: `body ${n}` })));
+    expect(peak).toBe(2);
+  });
+
+  it("lists the items that never arrived in errors.txt without retrying them", async () => {
+    let attempts = 0;
+    const entries: ArchiveEntrySource[] = [
+      {
+        name: "gone.jpg",
+        load: async () => {
+          attempts++;
+          throw new UpstreamError("Upstream responded with 503.", 503);
+        },
+      },
+      {
+        name: "broken.mp4",
+        load: async () => {
+          throw new Error("socket hang up");
+        },
+      },
+      { name: "fine.jpg", load: async () => Buffer.from("fine") },
+    ];
+
+    const zip = await collect(createArchiveStream(entries));
+    expect(attempts).toBe(1);
+    expect(readZip(zip).slice(0, -1)).toEqual([
+      { name: "fine.jpg", content: "fine" },
+      {
+        name: "errors.txt",
+        content: [
+          "2 of 3 items could not be downloaded and are missing from this archive.",
+          "",
+          "gone.jpg: Upstream responded with 503.",
+          "broken.mp4: socket hang up",
+          "",
+        ].join("\n"),
+      },
+    ]);
+  });
+
+  it("loads a body that breaks off again and leaves it out if it never arrives in full", async () => {
+    const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+    const stream = (chunks: string[], error?: Error) =>
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const chunk = chunks.shift();
+          if (chunk !== undefined) controller.enqueue(new TextEncoder().encode(chunk));
+          else if (error) controller.error(error);
+          else controller.close();
+        },
+      });
+    const attempts = { cut: 0, short: 0 };
+    const entries: ArchiveEntrySource[] = [
+      { name: "reel.mp4", size: 9, load: async () => stream(["reel ", "body"]) },
+      {
+        name: "cut.mp4",
+        load: async () => (++attempts.cut === 1 ? stream(["half"], new Error("socket hang up")) : stream(["whole"])),
+      },
+      {
+        name: "short.mp4",
+        size: 100,
+        load: async () => {
+          attempts.short++;
+          return stream(["short"]);
+        },
+      },
+    ];
+
+    const zip = await collect(createArchiveStream(entries));
+    expect(attempts).toEqual({ cut: 2, short: 3 });
+    expect(readZip(zip)).toEqual([
+      { name: "reel.mp4", content: "reel body" },
+      { name: "cut.mp4", content: "whole" },
+      {
+        name: "errors.txt",
+        content: [
+          "1 of 3 items could not be downloaded and are missing from this archive.",
+          "",
+          "short.mp4: Received 5 of 100 bytes.",
+          "",
+        ].join("\n"),
+      },
+      { name: CHECKSUMS_FILENAME, content: `${sha256("reel body")}  reel.mp4\n${sha256("whole")}  cut.mp4\n` },
+    ]);
+  });
+
+  it("fetches a file shared by several entries only once", async () => {
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return Buffer.from("slide");
+    };
+    const entries = [
+      { name: "a_1.jpg", key: "https://cdn/slide.jpg", load },
+      { name: "a_2.jpg", key: "https://cdn/slide.jpg", load },
+    ];
+
+    const zip = await collect(createArchiveStream(entries));
+    expect(loads).toBe(1);
+    expect(readZip(zip).map((entry) => entry.name)).toEqual(["a_1.jpg", "errors.txt", CHECKSUMS_FILENAME]);
+  });
+
+  it("writes a checksum manifest and skips items identical to earlier ones", async () => {
+    const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+    const entries = [
+      { name: "a_1.jpg", load: async () => Buffer.from("slide") },
+      { name: "a_2.jpg", load: async () => Buffer.from("other") },
+      { name: "a_3.jpg", load: async () => Buffer.from("slide") },
+    ];
+
+    const zip = await collect(createArchiveStream(entries));
+    expect(readZip(zip)).toEqual([
+      { name: "a_1.jpg", content: "slide" },
+      { name: "a_2.jpg", content: "other" },
+      {
+        name: "errors.txt",
+        content: "1 item was identical to an earlier item and written only once.\n\na_3.jpg: same file as a_1.jpg\n",
+      },
+      { name: CHECKSUMS_FILENAME, content: `${sha256("slide")}  a_1.jpg\n${sha256("other")}  a_2.jpg\n` },
+    ]);
+  });
+
+  it("skips streamed items identical to earlier ones and removes their spool files", async () => {
+    const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+    const spoolDirectories = async () =>
+      (await readdir(os.tmpdir())).filter((name) => name.startsWith("igvault-archive-")).length;
+    const before = await spoolDirectories();
+    const entries = [
+      { name: "a_1.mp4", load: async () => new Blob(["clip"]).stream() },
+      { name: "a_2.jpg", load: async () => Buffer.from("clip") },
+      { name: "a_3.mp4", load: async () => new Blob(["cl", "ip"]).stream() },
+    ];
+
+    const zip = await collect(createArchiveStream(entries));
+    expect(readZip(zip)).toEqual([
+      { name: "a_1.mp4", content: "clip" },
+      {
+        name: "errors.txt",
+        content:
+          "2 items were identical to an earlier item and written only once.\n\na_2.jpg: same file as a_1.mp4\na_3.mp4: same file as a_1.mp4\n",
+      },
+      { name: CHECKSUMS_FILENAME, content: `${sha256("clip")}  a_1.mp4\n` },
+    ]);
+    await vi.waitFor(async () => expect(await spoolDirectories()).toBe(before));
+  });
+
+  it("announces the exact size of a store-only ZIP", async () => {
+    const bodies = { "one.jpg": Buffer.alloc(1500, 1), "caf\u00e9.mp4": Buffer.alloc(700, 2) };
+    const entries = Object.entries(bodies).map(([name, body]) => ({ name, load: async () => body }));
+    const expected = storedZipSize(Object.entries(bodies).map(([name, body]) => ({ name, size: body.length })));
+
+    const zip = await collect(createArchiveStream(entries, { format: "zip-store", expectedBytes: expected ?? 0 }));
+    expect(zip.length).toBe(expected);
+    expect(readZip(zip).map((entry) => entry.name)).toEqual([...Object.keys(bodies), CHECKSUMS_FILENAME]);
+  });
+
+  it("counts the data descriptor of streamed entries in the announced size", async () => {
+    const bodies = { "reel.mp4": Buffer.alloc(1200, 3), "clip.mp4": Buffer.alloc(900, 4) };
+    const entries = Object.entries(bodies).map(([name, body]) => ({
+      name,
+      size: body.length,
+      load: async () => new Blob([body]).stream(),
+    }));
+    const expected = storedZipSize(
+      Object.entries(bodies).map(([name, body]) => ({ name, size: body.length, streamed: true })),
+    );
+
+    const zip = await collect(createArchiveStream(entries, { format: "zip-store", expectedBytes: expected ?? 0 }));
+    expect(zip.length).toBe(expected);
+    expect(readZip(zip).map((entry) => entry.content.length)).toEqual([1200, 900, expect.any(Number)]);
+  });
+
+  it("errors the stream when the archive misses its announced size", async () => {
+    const entries = [{ name: "one.jpg", load: async () => Buffer.alloc(10) }];
+    await expect(collect(createArchiveStream(entries, { format: "zip-store", expectedBytes: 50 }))).rejects.toThrow(
+      "Archive size does not match the announced 50 bytes.",
+    );
+  });
+
+  it("writes gzipped tarballs", async () => {
+    const entries = [{ name: "one.jpg", load: async () => Buffer.from("tar body") }];
+    const tar = gunzipSync(await collect(createArchiveStream(entries, { format: "tar.gz" })));
+    expect(tar.toString("utf8", 0, 7)).toBe("one.jpg");
+    expect(tar.toString("utf8", 257, 262)).toBe("ustar");
+    expect(tar.toString("utf8", 512, 520)).toBe("tar body");
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExtractedMedia } from "../lib/instagram";
+import { createBatchArchive, type PostReport } from "../lib/batch";
+import { MemoryHistoryStore, searchHistory, setHistoryStore } from "../lib/history";
+import { readZip } from "./support/zip";
+
+const { fetchPostMedia, fetchMedia } = vi.hoisted(() => ({
+  fetchPostMedia: vi.fn<(url: string) => Promise<ExtractedMedia>>(),
+  fetchMedia: vi.fn<(url: string) => Promise<Response>>(),
+}));
+vi.mock("../lib/instagram", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/instagram")>()),
+  fetchPostMedia,
+}));
+vi.mock("../lib/media-cache", () => ({ fetchMedia }));
+
+const CDN = "https://scontent.cdninstagram.com/v/t51/";
+
+function post(shortcode: string, count: number): ExtractedMedia {
+  return {
+    items: Array.from({ length: count }, (_, i) => ({
+      type: "image" as const,
+      url: `${CDN}${shortcode}_${i + 1}.jpg?_nc_ht=scontent.cdninstagram.com`,
+      thumbnail: "",
+      width: 1080,
+      height: 1080,
+      filesize: 0,
+    })),
+    meta: { type: "post", username: "someone", shortcode },
+  };
+}
+
+// Serves the chunks one read at a time, then ends or errors
+function body(chunks: string[], error?: Error): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk !== undefined) controller.enqueue(new TextEncoder().encode(chunk));
+      else if (error) controller.error(error);
+      else controller.close();
+    },
+  });
+}
+
+beforeEach(() => {
+  setHistoryStore(new MemoryHistoryStore());
+});
+
+afterEach(() => {
+  fetchPostMedia.mockReset();
+  fetchMedia.mockReset();
+});
+
+describe("createBatchArchive", () => {
+  it("fetches a body that breaks off again and reports the item if it never arrives in full", async () => {
+    fetchPostMedia.mockResolvedValue(post("ABC", 4));
+    let retried = 0;
+    fetchMedia.mockImplementation(async (url) => {
+      if (url.includes("_2.jpg")) return new Response(body(["half"], new Error("socket hang up")));
+      if (url.includes("_3.jpg")) return new Response(null, { status: 404 });
+      if (url.includes("_4.jpg") && retried++ === 0) return new Response(body(["fo"], new Error("socket hang up")));
+      return new Response(body(["one"]));
+    });
+    const reports: PostReport[] = [];
+
+    const batch = createBatchArchive(
+      { urls: ["https://www.instagram.com/p/ABC/"] },
+      { onPost: (report) => reports.push(report) },
+    );
+    const entries = readZip(Buffer.from(await new Response(batch.body).arrayBuffer()));
+
+    expect(reports).toEqual([
+      expect.objectContaining({
+        status: "partial",
+        downloaded: 2,
+        total: 4,
+        errors: ["Item 2: Download broke off after 4 bytes: socket hang up", "Item 3: upstream responded with 404."],
+      }),
+    ]);
+    const folder = reports[0].folder;
+    // The broken item isn't written at all, rather than cut short
+    expect(entries.slice(0, -1)).toEqual([
+      { name: expect.stringMatching(new RegExp(`^${folder}/.*_1\\.jpg$`)), content: "one" },
+      { name: expect.stringMatching(new RegExp(`^${folder}/.*_4\\.jpg$`)), content: "one" },
+    ]);
+    expect(fetchMedia).toHaveBeenCalledTimes(1 + 3 + 1 + 2);
+    expect(entries.at(-1)?.name).toBe("batch-report.txt");
+    expect(entries.at(-1)?.content).toContain("error: Item 2: Download broke off after 4 bytes: socket hang up");
+    // Only the items that made it in full are recorded, at the size actually written
+    const { entries: history } = await searchHistory();
+    expect(history).toEqual([
+      expect.objectContaining({ filenames: [entries[0].name.split("/")[1], entries[1].name.split("/")[1]], totalBytes: 6 }),
+    ]);
+  });
+
+  it("stops fetching once the client cancels", async () => {
+    fetchPostMedia.mockResolvedValue(post("ABC", 2));
+    let cancelled!: () => void;
+    const upstreamCancelled = new Promise<void>((resolve) => (cancelled = resolve));
+    let started!: () => void;
+    const fetchStarted = new Promise<void>((resolve) => (started = resolve));
+    fetchMedia.mockImplementation(async () => {
+      started();
+      return new Response(new ReadableStream({ pull: () => new Promise(() => {}), cancel: () => cancelled() }));
+    });
+
+    const batch = createBatchArchive({ urls: ["https://www.instagram.com/p/ABC/", "https://www.instagram.com/p/DEF/"] });
+    await fetchStarted;
+    await batch.body.cancel();
+    await upstreamCancelled;
+
+    expect(fetchPostMedia).toHaveBeenCalledTimes(1);
+    expect(fetchMedia).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { wantsDiagnostics } from "../lib/diagnostics";
+
+const debugRequest = (headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/preview?debug=1", { method: "POST", headers });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("wantsDiagnostics", () => {
+  it("only honours the debug flag for clients with a configured API key", () => {
+    vi.stubEnv("RATE_LIMIT_API_KEYS", "secret");
+    expect(wantsDiagnostics(debugRequest())).toBe(false);
+    expect(wantsDiagnostics(debugRequest({ "x-api-key": "made-up" }))).toBe(false);
+    expect(wantsDiagnostics(debugRequest({ authorization: "Bearer secret" }))).toBe(true);
+    expect(wantsDiagnostics(new Request("http://localhost/api/preview", { headers: { "x-api-key": "secret" } }))).toBe(
+      false,
+    );
+  });
+
+  it("honours it for anyone when DIAGNOSTICS_ACCESS=anyone", () => {
+    vi.stubEnv("DIAGNOSTICS_ACCESS", "anyone");
+    expect(wantsDiagnostics(debugRequest())).toBe(true);
+    expect(wantsDiagnostics(new Request("http://localhost/api/preview", { headers: { "x-debug": "true" } }))).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildFilenames, buildZipName, validateFilenameTemplate } from "../lib/filenames";
+import type { ApiResponse, MediaItem } from "../lib/types";
+
+const CDN = "https://scontent.cdninstagram.com/v/t51.2885-15";
+
+const meta: ApiResponse["meta"] = {
+  username: "some.user",
+  shortcode: "ABC123",
+  type: "post",
+  postTimestamp: Date.UTC(2026, 1, 19, 10, 30, 0),
+  caption: "Sunset at the pier 🌅 #beach / more",
+};
+
+const items: MediaItem[] = [
+  { type: "image", url: `${CDN}/one.jpg`, thumbnail: "", filesize: 0, width: 1080, height: 1350 },
+  { type: "video", url: `${CDN}/two.mp4`, thumbnail: "", filesize: 0, width: 720, height: 1280 },
+];
+
+describe("buildFilenames", () => {
+  it("keeps the classic naming without a template", () => {
+    expect(buildFilenames(items, meta)).toEqual([
+      "some_user_2026-02-19T103000.000Z_1.jpg",
+      "some_user_2026-02-19T103000.000Z_2.mp4",
+    ]);
+    expect(buildFilenames(items.slice(0, 1), meta)).toEqual(["some_user_2026-02-19T103000.000Z.jpg"]);
+  });
+
+  it("renders every token of a template", () => {
+    const template = "{date:YYYY-MM-DD} {username} {shortcode} {index}of{count} {type} {width}x{height} {caption:6}";
+    expect(buildFilenames(items, meta, template)).toEqual([
+      "2026-02-19 some_user ABC123 1of2 image 1080x1350 Sunset.jpg",
+      "2026-02-19 some_user ABC123 2of2 video 720x1280 Sunset.mp4",
+    ]);
+  });
+
+  it("sanitises captions and literal text so names stay inside their folder", () => {
+    expect(buildFilenames(items.slice(0, 1), meta, "../{caption}")).toEqual(["_Sunset_at_the_pier_beach_more.jpg"]);
+  });
+
+  it("numbers names that collide once truncated", () => {
+    const long = { ...meta, caption: "a".repeat(300) };
+    const names = buildFilenames([items[0], items[0]], long, "{caption}_{index}");
+    expect(names.map((name) => name.length)).toEqual([184, 186]);
+    expect(names[1]).toBe(`${"a".repeat(180)}_2.jpg`);
+  });
+
+  it("takes the extension from the probed format over the URL path", () => {
+    expect(buildFilenames([{ ...items[0], format: "webp" }], meta, "{shortcode}")).toEqual(["ABC123.webp"]);
+  });
+
+  it("numbers items automatically when the template has no {index}", () => {
+    expect(buildFilenames(items, meta, "{shortcode}_{date:YYYY}")).toEqual(["ABC123_2026_1.jpg", "ABC123_2026_2.mp4"]);
+  });
+});
+
+describe("buildZipName", () => {
+  it("renders post tokens into the archive name", () => {
+    expect(buildZipName(meta)).toBe("some_user_post_ABC123.zip");
+    expect(buildZipName(meta, "{username} {date:YYYYMMDD} ({count})", 3)).toBe("some_user 20260219 _3_.zip");
+  });
+});
+
+describe("validateFilenameTemplate", () => {
+  it("rejects unknown tokens, stray braces and item tokens in archive names", () => {
+    expect(validateFilenameTemplate("{username}_{date:YYYY}")).toBeNull();
+    expect(validateFilenameTemplate("{likes}")).toBe("Unknown filename token {likes}.");
+    expect(validateFilenameTemplate("{username")).toBe("Filename template has an unmatched brace.");
+    expect(validateFilenameTemplate("{username}_{index}", "archive")).toBe("{index} can't be used in an archive name.");
+    expect(validateFilenameTemplate("")).toBe("Filename template must be a non-empty string.");
+  });
+});
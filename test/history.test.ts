@@ -0,0 +1,116 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  deleteHistoryEntry,
+  FileHistoryStore,
+  MemoryHistoryStore,
+  recordDownload,
+  recordPreview,
+  searchHistory,
+  setHistoryStore,
+} from "../lib/history";
+import type { ExtractedMedia } from "../lib/instagram";
+
+const CDN = "https://scontent.cdninstagram.com/v/t51.2885-15";
+
+function post(username: string, shortcode: string): ExtractedMedia {
+  return {
+    items: [
+      { type: "image", url: `${CDN}/${shortcode}_1.jpg`, thumbnail: `${CDN}/${shortcode}_t.jpg`, width: 1080, height: 1350, filesize: 1000 },
+      { type: "video", url: `${CDN}/${shortcode}_2.mp4`, thumbnail: "", width: 720, height: 1280, filesize: 5000 },
+    ],
+    meta: { type: "post", username, shortcode },
+  };
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "history-"));
+  setHistoryStore(new MemoryHistoryStore());
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("download history", () => {
+  it("merges previews and downloads of a post into one entry that survives a restart", async () => {
+    const file = path.join(directory, "history.json");
+    setHistoryStore(new FileHistoryStore(file));
+    vi.useFakeTimers({ now: 1_000 });
+
+    await recordPreview("https://www.instagram.com/p/ABC123/", post("some.user", "ABC123"));
+    vi.setSystemTime(2_000);
+    await recordDownload("https://www.instagram.com/p/ABC123/", post("some.user", "ABC123"), [
+      { name: "a_1.jpg", size: 1100 },
+      { name: "a_2.mp4", size: 5000 },
+    ]);
+
+    setHistoryStore(new FileHistoryStore(file));
+    expect(await searchHistory()).toEqual({
+      total: 1,
+      entries: [
+        {
+          id: "post:some.user:ABC123",
+          url: "https://www.instagram.com/p/ABC123/",
+          kind: "post",
+          username: "some.user",
+          shortcode: "ABC123",
+          thumbnail: `${CDN}/ABC123_t.jpg`,
+          itemCount: 2,
+          totalBytes: 6100,
+          filenames: ["a_1.jpg", "a_2.mp4"],
+          previewedAt: 1_000,
+          downloadedAt: 2_000,
+          downloadCount: 1,
+        },
+      ],
+    });
+  });
+
+  it("sets a corrupt file aside and starts over", async () => {
+    const file = path.join(directory, "history.json");
+    await writeFile(file, '[{"id": "post:some.user:ABC');
+    setHistoryStore(new FileHistoryStore(file));
+    vi.useFakeTimers({ now: 5_000 });
+
+    await recordPreview("https://www.instagram.com/p/DEF456/", post("other.user", "DEF456"));
+    expect((await searchHistory()).entries.map((entry) => entry.shortcode)).toEqual(["DEF456"]);
+    expect((await readdir(directory)).sort()).toEqual(["history.json", "history.json.corrupt-5000"]);
+  });
+
+  it("tries loading again after a failed read", async () => {
+    const file = path.join(directory, "history.json");
+    // Reading a directory fails with EISDIR, as an unreadable file would
+    await mkdir(file);
+    const store = new FileHistoryStore(file);
+    await expect(store.list()).rejects.toThrow();
+
+    await rm(file, { recursive: true });
+    await writeFile(file, JSON.stringify([{ id: "post:some.user:ABC123", filenames: [] }]));
+    expect((await store.list()).map((entry) => entry.id)).toEqual(["post:some.user:ABC123"]);
+  });
+
+  it("searches by username or shortcode, most recent first, and deletes", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    await recordPreview("https://www.instagram.com/p/AAA/", post("first.user", "AAA"));
+    vi.setSystemTime(2_000);
+    await recordPreview("https://www.instagram.com/p/BBB/", post("second.user", "BBB"));
+    vi.setSystemTime(3_000);
+    await recordPreview("https://www.instagram.com/p/CCC/", post("first.user", "CCC"));
+
+    const ids = async (query?: string) => (await searchHistory({ query })).entries.map((entry) => entry.shortcode);
+    expect(await ids()).toEqual(["CCC", "BBB", "AAA"]);
+    expect(await ids("@First.User")).toEqual(["CCC", "AAA"]);
+    expect(await ids("bb")).toEqual(["BBB"]);
+    expect((await searchHistory({ limit: 1, offset: 1 })).entries.map((entry) => entry.shortcode)).toEqual(["BBB"]);
+
+    expect(await deleteHistoryEntry("post:first.user:AAA")).toBe(true);
+    expect(await deleteHistoryEntry("post:first.user:AAA")).toBe(false);
+    expect(await ids("first")).toEqual(["CCC"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createHttpClient } from "../lib/http-client";
+import type { FetchLike } from "../lib/types";
+
+describe("createHttpClient", () => {
+  it("retries 429/5xx responses and honours Retry-After", async () => {
+    const statuses = [503, 429, 200];
+    const calls: string[] = [];
+    const base: FetchLike = async (input) => {
+      calls.push(input);
+      const status = statuses.shift() ?? 200;
+      return new Response(null, { status, headers: status === 429 ? { "Retry-After": "0" } : {} });
+    };
+    const client = createHttpClient({ fetch: base, retries: 2, retryBaseDelayMs: 1 });
+    const res = await client("https://scontent.cdninstagram.com/a.jpg");
+    expect(res.status).toBe(200);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("gives up when Retry-After exceeds the maximum delay", async () => {
+    let calls = 0;
+    const base: FetchLike = async () => {
+      calls++;
+      return new Response(null, { status: 429, headers: { "Retry-After": "120" } });
+    };
+    const client = createHttpClient({ fetch: base, retries: 3, retryMaxDelayMs: 1000 });
+    const res = await client("https://www.instagram.com/p/abc/");
+    expect(res.status).toBe(429);
+    expect(calls).toBe(1);
+  });
+
+  it("does not retry non-idempotent methods", async () => {
+    let calls = 0;
+    const base: FetchLike = async () => {
+      calls++;
+      return new Response(null, { status: 500 });
+    };
+    const client = createHttpClient({ fetch: base, retries: 3, retryBaseDelayMs: 1 });
+    await client("https://www.instagram.com/api/", { method: "POST" });
+    expect(calls).toBe(1);
+  });
+
+  it("merges configured headers under per-request headers", async () => {
+    let seen: Headers | undefined;
+    const base: FetchLike = async (_input, init) => {
+      seen = new Headers(init?.headers);
+      return new Response(null, { status: 200 });
+    };
+    const client = createHttpClient({ fetch: base, headers: { "User-Agent": "ig-vault", Accept: "*/*" } });
+    await client("https://www.instagram.com/", { headers: { Accept: "text/html" } });
+    expect(seen?.get("user-agent")).toBe("ig-vault");
+    expect(seen?.get("accept")).toBe("text/html");
+  });
+
+  it("caps concurrent requests per host", async () => {
+    let active = 0;
+    let peak = 0;
+    const base: FetchLike = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return new Response(null, { status: 200 });
+    };
+    const client = createHttpClient({ fetch: base, maxConcurrencyPerHost: 2 });
+    await Promise.all(Array.from({ length: 6 }, (_, i) => client(`https://scontent.cdninstagram.com/${i}.jpg`)));
+    expect(peak).toBe(2);
+  });
+
+  it("frees the host slot once headers arrive, not when the body is read", async () => {
+    const base: FetchLike = async () => new Response(new ReadableStream({ pull: () => new Promise(() => {}) }));
+    const client = createHttpClient({ fetch: base, maxConcurrencyPerHost: 1 });
+    const streaming = await client("https://scontent.cdninstagram.com/reel.mp4");
+    const next = await client("https://scontent.cdninstagram.com/thumb.jpg");
+    expect(next.status).toBe(200);
+    await streaming.body?.cancel();
+  });
+
+  it("rejects immediately when the caller aborts", async () => {
+    const base: FetchLike = (_input, init) =>
+      new Promise((_resolve, reject) => {
+        if (init?.signal?.aborted) reject(init.signal.reason);
+        init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+      });
+    const client = createHttpClient({ fetch: base, retries: 3 });
+    const controller = new AbortController();
+    const promise = client("https://www.instagram.com/", { signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+    await expect(promise).rejects.toThrow("cancelled");
+  });
+});
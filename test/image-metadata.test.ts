@@ -0,0 +1,92 @@
+import { crc32 } from "zlib";
+import { describe, expect, it } from "vitest";
+import { embedImageMetadata } from "../lib/image-metadata";
+
+const metadata = {
+  timestamp: Date.UTC(2024, 1, 19, 8, 30, 5),
+  username: "test.user",
+  caption: "Café opening ☕ #launch",
+  shortcode: "C0ffee12345",
+  sourceUrl: "https://www.instagram.com/p/C0ffee12345/",
+};
+
+function segment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function listJpegSegments(buffer: Buffer): Array<{ marker: number; payload: Buffer }> {
+  const segments = [];
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset + 1] !== 0xda) {
+    const length = buffer.readUInt16BE(offset + 2);
+    segments.push({ marker: buffer[offset + 1], payload: buffer.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return segments;
+}
+
+describe("embedImageMetadata", () => {
+  const jfif = segment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "binary"));
+  const sof = segment(0xc0, Buffer.from([0x08, 0x07, 0x08, 0x05, 0xa0, 0x03, 0x01, 0x22, 0x00]));
+  const scan = Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]);
+  const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8]), jfif, sof, scan]);
+
+  it("inserts EXIF and XMP segments after APP0 in a JPEG without EXIF", () => {
+    const output = embedImageMetadata(jpeg, metadata);
+    const segments = listJpegSegments(output);
+    expect(segments.map((s) => s.marker)).toEqual([0xe0, 0xe1, 0xe1, 0xc0]);
+
+    const exif = segments[1].payload;
+    expect(exif.subarray(0, 6).toString("binary")).toBe("Exif\0\0");
+    expect(exif.includes(Buffer.from("test.user\0"))).toBe(true);
+    expect(exif.includes(Buffer.from("2024:02:19 08:30:05\0"))).toBe(true);
+    expect(exif.includes(Buffer.from(metadata.caption, "utf8"))).toBe(true);
+
+    const xmp = segments[2].payload.toString("utf8");
+    expect(xmp.startsWith("http://ns.adobe.com/xap/1.0/\0")).toBe(true);
+    expect(xmp).toContain("<dc:source>https://www.instagram.com/p/C0ffee12345/</dc:source>");
+    expect(xmp).toContain("<dc:identifier>C0ffee12345</dc:identifier>");
+
+    expect(output.subarray(output.length - scan.length)).toEqual(scan);
+  });
+
+  it("replaces an existing EXIF segment instead of duplicating it", () => {
+    const stale = segment(0xe1, Buffer.from("Exif\0\0MM\0*\0\0\0\x08\0\0\0\0\0\0", "binary"));
+    const withExif = Buffer.concat([Buffer.from([0xff, 0xd8]), stale, sof, scan]);
+    const segments = listJpegSegments(embedImageMetadata(withExif, metadata));
+    expect(segments.map((s) => s.marker)).toEqual([0xe1, 0xe1, 0xc0]);
+    expect(segments[0].payload.includes(Buffer.from("test.user\0"))).toBe(true);
+  });
+
+  it("adds text chunks with valid CRCs after IHDR in a PNG", () => {
+    const ihdr = Buffer.from("0000000d4948445200000001000000010806000000", "hex");
+    const png = Buffer.concat([
+      Buffer.from("89504e470d0a1a0a", "hex"),
+      ihdr,
+      Buffer.from("1f15c489", "hex"),
+      Buffer.from("0000000049454e44ae426082", "hex"),
+    ]);
+    const output = embedImageMetadata(png, metadata);
+
+    const chunks: Array<{ type: string; data: Buffer }> = [];
+    let offset = 8;
+    while (offset < output.length) {
+      const length = output.readUInt32BE(offset);
+      const type = output.subarray(offset + 4, offset + 8).toString("ascii");
+      const data = output.subarray(offset + 8, offset + 8 + length);
+      expect(output.readUInt32BE(offset + 8 + length)).toBe(crc32(output.subarray(offset + 4, offset + 8 + length)));
+      chunks.push({ type, data });
+      offset += 12 + length;
+    }
+    expect(chunks.map((c) => c.type)).toEqual(["IHDR", "tEXt", "iTXt", "tEXt", "tEXt", "iTXt", "IEND"]);
+    expect(chunks[1].data.toString("latin1")).toBe("Author\0test.user");
+    expect(chunks[2].data.toString("utf8")).toContain(metadata.caption);
+  });
+
+  it("returns other formats untouched", () => {
+    const webp = Buffer.from("RIFF\0\0\0\0WEBPVP8 ", "binary");
+    expect(embedImageMetadata(webp, metadata)).toBe(webp);
+  });
+});
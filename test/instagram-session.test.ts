@@ -0,0 +1,61 @@
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadInstagramSession, SessionError, withInstagramSession } from "../lib/instagram-session";
+import { fetchPostMedia } from "../lib/instagram";
+import type { FetchLike } from "../lib/types";
+
+const session = { cookieHeader: "sessionid=abc; csrftoken=tok", csrfToken: "tok" };
+
+describe("withInstagramSession", () => {
+  it("sends the cookie to Instagram hosts and drops it once a redirect leaves them", async () => {
+    const seen: Array<{ url: string; cookie: string | null }> = [];
+    const base: FetchLike = async (input, init) => {
+      seen.push({ url: input, cookie: new Headers(init?.headers).get("cookie") });
+      if (input.startsWith("https://www.instagram.com/")) {
+        return new Response(null, { status: 302, headers: { Location: "https://scontent.cdninstagram.com/v/a.jpg" } });
+      }
+      return new Response("ok");
+    };
+
+    const res = await withInstagramSession(base, session)("https://www.instagram.com/p/abc/media/?size=l");
+    expect(res.url).toBe("https://scontent.cdninstagram.com/v/a.jpg");
+    expect(seen).toEqual([
+      { url: "https://www.instagram.com/p/abc/media/?size=l", cookie: "sessionid=abc; csrftoken=tok" },
+      { url: "https://scontent.cdninstagram.com/v/a.jpg", cookie: null },
+    ]);
+  });
+
+  it("reports a redirect to the login page as a SessionError", async () => {
+    const base: FetchLike = async () =>
+      new Response(null, { status: 302, headers: { Location: "https://www.instagram.com/accounts/login/?next=/p/abc/" } });
+    await expect(withInstagramSession(base, session)("https://www.instagram.com/p/abc/")).rejects.toBeInstanceOf(SessionError);
+  });
+
+  it("surfaces a challenged session from fetchPostMedia instead of a block", async () => {
+    const base: FetchLike = async () =>
+      Response.json({ message: "checkpoint_required", status: "fail" }, { status: 400 });
+    const promise = fetchPostMedia("https://www.instagram.com/p/SESSION1/", { fetch: base, session });
+    await expect(promise).rejects.toBeInstanceOf(SessionError);
+  });
+});
+
+describe("loadInstagramSession", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("refuses a configured session without a sessionid instead of going on without it", async () => {
+    vi.stubEnv("INSTAGRAM_SESSION_COOKIES", "csrftoken=tok");
+    await expect(loadInstagramSession()).rejects.toThrow(
+      new SessionError("The configured Instagram session has no sessionid cookie. Update the configured session."),
+    );
+  });
+
+  it("reports a session file that can't be read, and reads it again on the next call", async () => {
+    vi.stubEnv("INSTAGRAM_SESSION_FILE", path.join(__dirname, "missing-cookies.txt"));
+    await expect(loadInstagramSession()).rejects.toBeInstanceOf(SessionError);
+
+    vi.stubEnv("INSTAGRAM_SESSION_FILE", "");
+    await expect(loadInstagramSession()).resolves.toBeNull();
+  });
+});
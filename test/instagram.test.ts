@@ -0,0 +1,325 @@
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchPostMedia, fetchProfilePosts, normalizePostUrl, normalizeProfileUrl, UpstreamError } from "../lib/instagram";
+import { buildFilenames } from "../lib/filenames";
+import { DiagnosticsRecorder } from "../lib/diagnostics";
+import { setPostCacheStore } from "../lib/post-cache";
+import { resetExtractorCircuits } from "../lib/extractors";
+import { loadFixture } from "./support/fixture";
+
+const CDN = "https://scontent.cdninstagram.com";
+const NC_HT = "_nc_ht=scontent.cdninstagram.com";
+
+async function replay(name: string) {
+  const { manifest, fetch } = await loadFixture(path.join(__dirname, "fixtures", name));
+  return fetchPostMedia(manifest.postUrl, { fetch });
+}
+
+beforeEach(() => {
+  setPostCacheStore(null);
+  resetExtractorCircuits();
+});
+
+describe("fetchPostMedia", () => {
+  it("extracts a carousel from the __a=1 JSON endpoint and promotes the image", async () => {
+    const result = await replay("a1-json");
+    expect(result).toEqual({
+      items: [
+        {
+          type: "image",
+          url: `${CDN}/v/t51.29350-15/111_n.jpg?stp=dst-jpg_e35&${NC_HT}`,
+          thumbnail: `${CDN}/v/t51.29350-15/111_n.jpg?stp=dst-jpg_e35&${NC_HT}`,
+          width: 1440,
+          height: 1800,
+          filesize: 412877,
+          format: "jpeg",
+        },
+        {
+          type: "video",
+          url: `${CDN}/o1/v/t16/f2/m86/222_video.mp4?${NC_HT}`,
+          thumbnail: `${CDN}/v/t51.29350-15/222_n.jpg?stp=dst-jpg_e15_p480x480&${NC_HT}`,
+          width: 720,
+          height: 1280,
+          filesize: 3145728,
+          dash: {
+            video: {
+              url: `${CDN}/o1/v/t16/f2/m69/222_1080.mp4?${NC_HT}&efg=def`,
+              mimeType: "video/mp4",
+              bandwidth: 3860000,
+              codecs: "avc1.640028",
+              width: 1080,
+              height: 1920,
+            },
+            audio: {
+              url: `${CDN}/o1/v/t16/f2/m69/222_audio.mp4?${NC_HT}&efg=ghi`,
+              mimeType: "audio/mp4",
+              bandwidth: 68000,
+              codecs: "mp4a.40.5",
+            },
+          },
+        },
+      ],
+      meta: {
+        type: "post",
+        username: "api.user",
+        shortcode: "C0ffee12345",
+        postTimestamp: 1708300800000,
+        caption: "Launch day! #newdrop #ss24 shot by @studio.north with @jane_doe.",
+        hashtags: ["newdrop", "ss24"],
+        mentions: ["studio.north", "jane_doe"],
+        likeCount: 1523,
+        commentCount: 48,
+        location: "Brooklyn, New York",
+        isPaidPartnership: true,
+      },
+    });
+  });
+
+  it("extracts a single image from window._sharedData", async () => {
+    const result = await replay("shared-data");
+    expect(result).toEqual({
+      items: [
+        {
+          type: "image",
+          url: `${CDN}/v/t51.2885-15/333_n.jpg?${NC_HT}`,
+          thumbnail: `${CDN}/v/t51.2885-15/333_n.jpg?${NC_HT}`,
+          width: 1080,
+          height: 1350,
+          filesize: 198231,
+        },
+      ],
+      meta: {
+        type: "post",
+        username: "shared.user",
+        shortcode: "C0ffee12345",
+        postTimestamp: 1708387200000,
+        caption: "Morning light #film",
+        hashtags: ["film"],
+        likeCount: 87,
+        commentCount: 5,
+        isPaidPartnership: false,
+      },
+    });
+  });
+
+  it("extracts a sidecar from JSON strings embedded in an s.handle() payload", async () => {
+    const result = await replay("s-handle");
+    expect(result.meta).toEqual({
+      type: "post",
+      username: "handle.user",
+      shortcode: "C0ffee12345",
+      postTimestamp: 1708473600000,
+    });
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0]).toMatchObject({ type: "image", width: 1080, height: 1080, filesize: 0 });
+    // Width comes from the efg vencode_tag, height from the display aspect ratio
+    expect(result.items[1]).toMatchObject({
+      type: "video",
+      thumbnail: `${CDN}/v/t51.2885-15/555_n.jpg?${NC_HT}`,
+      width: 720,
+      height: 900,
+      filesize: 5242880,
+    });
+    expect(result.items[1].url).toMatch(/555_video\.mp4\?efg=/);
+  });
+
+  it("falls back to the embed page and dates the post from the main page description", async () => {
+    const result = await replay("embed");
+    expect(result).toEqual({
+      items: [
+        {
+          type: "image",
+          url: `${CDN}/v/t51.2885-15/666_n.jpg?${NC_HT}`,
+          thumbnail: `${CDN}/v/t51.2885-15/666_n.jpg?${NC_HT}`,
+          width: 1080,
+          height: 1080,
+          filesize: 0,
+        },
+      ],
+      meta: { type: "post", username: "embed.user", shortcode: "C0ffee12345", postTimestamp: Date.UTC(2024, 1, 19) },
+    });
+  });
+
+  it("falls back to OG meta tags when no JSON is present", async () => {
+    const result = await replay("og-meta");
+    const url = `${CDN}/v/t51.2885-15/777_n.jpg?stp=dst-jpg_e35_s640x640_sh0.08&${NC_HT}&oh=00_AbC`;
+    expect(result).toEqual({
+      items: [{ type: "image", url, thumbnail: url, width: 640, height: 640, filesize: 88120 }],
+      meta: {
+        type: "post",
+        username: "og.user",
+        shortcode: "C0ffee12345",
+        postTimestamp: Date.UTC(2024, 2, 1),
+        caption: "Sunset at the pier #goldenhour #sf with @friend.one.",
+        hashtags: ["goldenhour", "sf"],
+        mentions: ["friend.one"],
+        likeCount: 1204,
+        commentCount: 2,
+      },
+    });
+  });
+
+  it("records strategies, upstream calls and promotion candidates when diagnosing", async () => {
+    const { manifest, fetch } = await loadFixture(path.join(__dirname, "fixtures", "og-meta"));
+    const diagnostics = new DiagnosticsRecorder();
+    await fetchPostMedia(manifest.postUrl, { fetch, diagnostics });
+    const report = diagnostics.toJSON();
+
+    expect(report.strategies.map((s) => [s.name, s.outcome])).toEqual([
+      ["api-json", "failed"],
+      ["page-json", "empty"],
+      ["embed-json", "empty"],
+      ["og-meta", "matched"],
+    ]);
+    expect(report.requests[0]).toMatchObject({ method: "GET", url: `${manifest.postUrl}?__a=1&__d=dis`, status: 403 });
+    expect(report.promotions).toHaveLength(1);
+    expect(report.promotions[0].chosen).toBeUndefined();
+    expect(report.promotions[0].candidates.map((c) => c.outcome)).toContain("unreachable");
+  });
+
+  it("surfaces a blocked post page as an UpstreamError", async () => {
+    const blocked = async () => new Response(null, { status: 403 });
+    const promise = fetchPostMedia("https://www.instagram.com/p/C0ffee12345/", { fetch: blocked });
+    await expect(promise).rejects.toBeInstanceOf(UpstreamError);
+    await expect(promise).rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe("extraction strategies", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("runs only the configured strategies in the configured order", async () => {
+    vi.stubEnv("EXTRACTION_STRATEGIES", "og-meta, og-mta, page-json");
+    const { manifest, fetch } = await loadFixture(path.join(__dirname, "fixtures", "og-meta"));
+    const diagnostics = new DiagnosticsRecorder();
+    await fetchPostMedia(manifest.postUrl, { fetch, diagnostics });
+    const report = diagnostics.toJSON();
+    expect(report.strategies.map((s) => [s.name, s.outcome])).toEqual([["og-mta", "skipped"], ["og-meta", "matched"]]);
+    expect(report.strategies[0].error).toBe("Unknown strategy named in EXTRACTION_STRATEGIES");
+    expect(report.requests.some((r) => r.url.includes("__a=1"))).toBe(false);
+  });
+
+  it("keeps trying strategies that come back empty, as they do for a missing post", async () => {
+    vi.stubEnv("EXTRACTION_BREAKER_THRESHOLD", "2");
+    const { manifest, fetch } = await loadFixture(path.join(__dirname, "fixtures", "og-meta"));
+    const outcomes = [];
+    for (let i = 0; i < 3; i++) {
+      const diagnostics = new DiagnosticsRecorder();
+      await fetchPostMedia(manifest.postUrl, { fetch, diagnostics });
+      outcomes.push(diagnostics.toJSON().strategies.map((s) => s.outcome));
+    }
+    // Only api-json, which the fixture's JSON endpoint refuses with a 403, is switched off
+    expect(outcomes[2]).toEqual(["skipped", "empty", "empty", "matched"]);
+  });
+
+  it("skips a strategy once Instagram keeps refusing it", async () => {
+    vi.stubEnv("EXTRACTION_BREAKER_THRESHOLD", "2");
+    const blocked = async () => new Response(null, { status: 403 });
+    const outcomes = [];
+    const errors = [];
+    for (let i = 0; i < 3; i++) {
+      const diagnostics = new DiagnosticsRecorder();
+      errors.push(await fetchPostMedia("https://www.instagram.com/p/C0ffee12345/", { fetch: blocked, diagnostics }).catch((err) => err));
+      outcomes.push(diagnostics.toJSON().strategies.map((s) => s.outcome));
+    }
+    expect(outcomes[1]).toEqual(["failed", "failed", "failed", "failed"]);
+    expect(outcomes[2]).toEqual(["skipped", "skipped", "skipped", "skipped"]);
+    expect(errors[2]).toMatchObject({ status: 503, message: "Instagram is refusing requests right now. Try again in a few minutes." });
+  });
+});
+
+describe("stories", () => {
+  it("extracts a single story from the owner's reel with its own timestamps", async () => {
+    const result = await replay("story");
+    expect(result.meta).toEqual({
+      type: "story",
+      username: "story.user",
+      shortcode: "3300000000000000002",
+      postTimestamp: 1771498800000,
+    });
+    expect(result.items).toEqual([
+      {
+        type: "video",
+        url: `${CDN}/o1/v/t16/f2/m69/402_video.mp4?${NC_HT}`,
+        thumbnail: `${CDN}/v/t51.2885-15/402_n.jpg?stp=dst-jpg_e15_p480x480&${NC_HT}`,
+        width: 720,
+        height: 1280,
+        filesize: 0,
+        takenAt: 1771498800000,
+        expiresAt: 1771585200000,
+      },
+    ]);
+    expect(buildFilenames(result.items, result.meta)).toEqual(["story_user_2026-02-19T110000.000Z.mp4"]);
+  });
+
+  it("returns the whole live reel for a story URL without an id", async () => {
+    const { fetch } = await loadFixture(path.join(__dirname, "fixtures", "story"));
+    const result = await fetchPostMedia("https://www.instagram.com/stories/story.user/", { fetch });
+    expect(result.items.map((item) => [item.type, item.takenAt])).toEqual([
+      ["image", 1771495200000],
+      ["video", 1771498800000],
+    ]);
+    expect(buildFilenames(result.items, result.meta)).toEqual([
+      "story_user_2026-02-19T100000.000Z_1.jpg",
+      "story_user_2026-02-19T110000.000Z_2.mp4",
+    ]);
+  });
+
+  it("normalizes story and highlight URLs", () => {
+    expect(normalizePostUrl("https://instagram.com/stories/highlights/17890000000000001/?hl=en")).toEqual({
+      url: "https://www.instagram.com/stories/highlights/17890000000000001/",
+      shortcode: "17890000000000001",
+      kind: "highlight",
+    });
+    expect(normalizePostUrl("https://www.instagram.com/stories/Some.User/3300000000000000002")).toEqual({
+      url: "https://www.instagram.com/stories/some.user/3300000000000000002/",
+      shortcode: "3300000000000000002",
+      kind: "story",
+      username: "some.user",
+    });
+  });
+});
+
+describe("fetchProfilePosts", () => {
+  it("lists recent posts from web_profile_info and pages through the timeline", async () => {
+    const { manifest, fetch } = await loadFixture(path.join(__dirname, "fixtures", "profile"));
+    const first = await fetchProfilePosts(manifest.postUrl, { fetch });
+    expect(first).toMatchObject({ username: "api.user", fullName: "API User", postCount: 3 });
+    expect(first.posts).toEqual([
+      {
+        shortcode: "Cside00001",
+        url: "https://www.instagram.com/p/Cside00001/",
+        thumbnail: `${CDN}/v/t51.2885-15/901_n.jpg?stp=c0.0.1080.1080a_s640x640`,
+        type: "carousel",
+        postTimestamp: 1708300800000,
+        caption: "Carousel post",
+      },
+      {
+        shortcode: "Creel00002",
+        url: "https://www.instagram.com/p/Creel00002/",
+        thumbnail: `${CDN}/v/t51.2885-15/902_s150.jpg`,
+        type: "video",
+        postTimestamp: 1708214400000,
+        caption: undefined,
+      },
+    ]);
+    expect(first.nextCursor).toBeTruthy();
+
+    const second = await fetchProfilePosts(manifest.postUrl, { fetch, cursor: first.nextCursor });
+    expect(second.posts.map((post) => [post.shortcode, post.type])).toEqual([["Cimg000003", "image"]]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+});
+
+describe("normalizeProfileUrl", () => {
+  it("accepts profile URLs and rejects reserved paths", () => {
+    expect(normalizeProfileUrl("https://instagram.com/Some.User/?hl=en")).toEqual({
+      url: "https://www.instagram.com/some.user/",
+      username: "some.user",
+    });
+    expect(() => normalizeProfileUrl("https://www.instagram.com/explore/")).toThrow();
+    expect(() => normalizeProfileUrl("https://www.instagram.com/p/C0ffee12345/")).toThrow();
+  });
+});
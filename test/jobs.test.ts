@@ -0,0 +1,169 @@
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DownloadOptions, DownloadProgress, PreparedDownload } from "../lib/downloads";
+import { createJob, getJob, JobLimitError, openJobFile, parseJobRequest, subscribeToJob } from "../lib/jobs";
+import type { JobEvent } from "../lib/types";
+
+const prepareDownload = vi.hoisted(() => vi.fn<(options: DownloadOptions, progress: DownloadProgress) => Promise<PreparedDownload>>());
+vi.mock("../lib/downloads", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/downloads")>()),
+  prepareDownload,
+}));
+
+function request(): DownloadOptions {
+  const parsed = parseJobRequest({ url: "https://www.instagram.com/p/ABC123/", format: "tar" });
+  if ("error" in parsed || parsed.request.kind !== "download") throw new Error("expected a download request");
+  return parsed.request.options;
+}
+
+// Resolves with every event of the job, once it has finished
+function finished(id: string): Promise<Array<{ id: number; event: JobEvent }>> {
+  return new Promise((resolve) => {
+    const seen: Array<{ id: number; event: JobEvent }> = [];
+    subscribeToJob(id, 0, (event, eventId) => {
+      seen.push({ id: eventId, event });
+      if (event.type === "done" || event.type === "failed") resolve(seen);
+    });
+  });
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "jobs-"));
+  vi.stubEnv("JOBS_DIR", directory);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  prepareDownload.mockReset();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("background jobs", () => {
+  it("reports extraction and each item, then serves the finished file", async () => {
+    prepareDownload.mockImplementation(async (_options, progress) => {
+      progress.onStrategy?.({ name: "api-json", outcome: "empty", durationMs: 3 });
+      progress.onStrategy?.({ name: "page-json", outcome: "matched", durationMs: 5 });
+      progress.onExtracted?.(2);
+      progress.onEntry?.({ index: 0, name: "a_1.jpg", outcome: "written" });
+      progress.onEntry?.({ index: 1, name: "a_2.mp4", outcome: "failed", error: "Upstream responded with 404." });
+      return { filename: "a.tar", contentType: "application/x-tar", body: new Blob(["archive bytes"]).stream() };
+    });
+
+    const job = createJob({ kind: "download", options: request() }, "ip:203.0.113.7");
+    const events = await finished(job.id);
+
+    expect(prepareDownload.mock.calls[0][0]).toMatchObject({ postUrl: "https://www.instagram.com/p/ABC123/", format: "tar" });
+    expect(events.map(({ id }) => id)).toEqual(events.map((_, i) => i + 1));
+    expect(events.map(({ event }) => event.type)).toEqual([
+      "status", "status", "strategy", "strategy", "status", "item", "item", "bytes", "done",
+    ]);
+    expect(getJob(job.id)).toMatchObject({
+      status: "done",
+      strategy: { name: "page-json", outcome: "matched" },
+      completed: 2,
+      failed: 1,
+      total: 2,
+      bytesWritten: 13,
+      filename: "a.tar",
+      size: 13,
+    });
+
+    const file = openJobFile(job.id);
+    expect(file).toMatchObject({ filename: "a.tar", contentType: "application/x-tar", size: 13 });
+    expect(await new Response(file!.body).text()).toBe("archive bytes");
+
+    // A reconnecting client only gets what it missed
+    const replayed: number[] = [];
+    subscribeToJob(job.id, 7, (_event, id) => replayed.push(id))?.();
+    expect(replayed).toEqual([8, 9]);
+  });
+
+  it("fails the job without leaving a partial file behind", async () => {
+    prepareDownload.mockImplementation(async (_options, progress) => {
+      progress.onExtracted?.(3);
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("partial"));
+          controller.error(new Error("Archive size does not match the announced 1000 bytes."));
+        },
+      });
+      return { filename: "a.zip", contentType: "application/zip", body, size: 1000 };
+    });
+
+    const job = createJob({ kind: "download", options: request() }, "ip:203.0.113.7");
+    const events = await finished(job.id);
+
+    expect(events.at(-1)?.event).toEqual({ type: "failed", error: "Archive size does not match the announced 1000 bytes." });
+    expect(getJob(job.id)).toMatchObject({ status: "failed", total: 3 });
+    expect(openJobFile(job.id)).toBeNull();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("clears expired files a previous process left behind before writing the first one", async () => {
+    const leftover = "0b7c5f1e-2d4a-4c8e-9f3b-6a1d2e3f4a5b";
+    await writeFile(path.join(directory, leftover), "stale");
+    const hoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await utimes(path.join(directory, leftover), hoursAgo, hoursAgo);
+    // Another instance sharing the directory may still be serving this one
+    const recent = "5a4f3e2d-1a6b-4f3b-9e8c-4a2d1e5f7c0b";
+    await writeFile(path.join(directory, recent), "in use");
+    await writeFile(path.join(directory, "notes.txt"), "not ours");
+    prepareDownload.mockResolvedValue({ filename: "a.mp4", contentType: "video/mp4", body: new Blob(["reel"]).stream() });
+
+    const job = createJob({ kind: "download", options: request() }, "ip:203.0.113.7");
+    await finished(job.id);
+    expect((await readdir(directory)).sort()).toEqual([job.id, recent, "notes.txt"].sort());
+  });
+
+  it("limits how many jobs one client can have waiting or running", async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    prepareDownload.mockImplementation(async () => {
+      await released;
+      return { filename: "a.mp4", contentType: "video/mp4", body: new Blob(["reel"]).stream() };
+    });
+    vi.stubEnv("JOBS_MAX_PENDING_PER_CLIENT", "2");
+
+    const jobs = [createJob({ kind: "download", options: request() }, "ip:203.0.113.7")];
+    jobs.push(createJob({ kind: "download", options: request() }, "ip:203.0.113.7"));
+    expect(() => createJob({ kind: "download", options: request() }, "ip:203.0.113.7")).toThrow(
+      expect.objectContaining({ constructor: JobLimitError, status: 429 }),
+    );
+    jobs.push(createJob({ kind: "download", options: request() }, "ip:198.51.100.2"));
+
+    release();
+    await Promise.all(jobs.map((job) => finished(job.id)));
+  });
+
+  it("drops the oldest finished jobs past the cap", async () => {
+    prepareDownload.mockImplementation(async () => ({
+      filename: "a.mp4",
+      contentType: "video/mp4",
+      body: new Blob(["reel"]).stream(),
+    }));
+    vi.stubEnv("JOBS_MAX_FINISHED", "1");
+
+    const first = createJob({ kind: "download", options: request() }, "ip:203.0.113.7");
+    await finished(first.id);
+    const second = createJob({ kind: "download", options: request() }, "ip:203.0.113.7");
+    await finished(second.id);
+
+    expect(getJob(first.id)).toBeNull();
+    expect(getJob(second.id)).toMatchObject({ status: "done" });
+    expect(await readdir(directory)).toEqual([second.id]);
+  });
+
+  it("tells batch requests from single-post ones", () => {
+    expect(parseJobRequest({ urls: ["https://www.instagram.com/p/A/"] })).toEqual({
+      request: { kind: "batch", options: { urls: ["https://www.instagram.com/p/A/"], filenameTemplate: undefined } },
+    });
+    expect(parseJobRequest({ urls: [] })).toEqual({ error: "A list of post URLs is required." });
+    expect(parseJobRequest({ url: "https://www.instagram.com/p/A/", format: "rar" })).toEqual({
+      error: "Archive format must be one of zip, zip-store, tar, tar.gz.",
+    });
+  });
+});
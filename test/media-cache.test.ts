@@ -0,0 +1,131 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { canonicalMediaKey, fetchMedia, MediaCache, setMediaCache } from "../lib/media-cache";
+
+const CDN = "https://scontent-ams2-1.cdninstagram.com";
+const FUTURE_OE = Math.floor(Date.now() / 1000 + 3600).toString(16);
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "media-cache-"));
+});
+
+afterEach(async () => {
+  setMediaCache(null);
+  await rm(directory, { recursive: true, force: true });
+});
+
+function body(size: number, fill = 1): ReadableStream<Uint8Array> {
+  return new Response(new Uint8Array(size).fill(fill)).body as ReadableStream<Uint8Array>;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+describe("canonicalMediaKey", () => {
+  it("keeps the host and signature so only the same signed URL hits", () => {
+    const a = `${CDN}/v/t51.2885-15/1_n.jpg?stp=dst-jpg_e35&oh=00_AAA&oe=${FUTURE_OE}`;
+    const reordered = `${CDN}/v/t51.2885-15/1_n.jpg?oe=${FUTURE_OE}&oh=00_AAA&stp=dst-jpg_e35`;
+    const forged = `${CDN}/v/t51.2885-15/1_n.jpg?stp=dst-jpg_e35&oh=00_BBB&oe=${FUTURE_OE}`;
+    const unsigned = `${CDN}/v/t51.2885-15/1_n.jpg?stp=dst-jpg_e35`;
+    const otherHost = `https://scontent.cdninstagram.com/v/t51.2885-15/1_n.jpg?stp=dst-jpg_e35&oh=00_AAA&oe=${FUTURE_OE}`;
+    expect(canonicalMediaKey(a)).toBe(canonicalMediaKey(reordered));
+    for (const other of [forged, unsigned, otherHost]) expect(canonicalMediaKey(other)).not.toBe(canonicalMediaKey(a));
+  });
+});
+
+describe("MediaCache", () => {
+  it("stores bodies on disk and serves byte ranges after a restart", async () => {
+    const url = `${CDN}/v/t16/clip.mp4?oe=${FUTURE_OE}`;
+    const headers = new Headers({ "content-type": "video/mp4", "content-length": "10", etag: '"v1"' });
+    await new MediaCache(directory).put(url, new Response("0123456789").body as ReadableStream<Uint8Array>, headers);
+
+    const reopened = new MediaCache(directory);
+    expect(await reopened.get(`${CDN}/v/t16/clip.mp4?oh=forged&oe=${FUTURE_OE}`)).toBeNull();
+    const entry = await reopened.get(url);
+    expect(entry).toMatchObject({ size: 10, contentType: "video/mp4", etag: '"v1"' });
+    expect((await readAll(reopened.read(entry!, 2, 5))).toString()).toBe("2345");
+  });
+
+  it("evicts the least recently used entries once over the size limit", async () => {
+    const cache = new MediaCache(directory, 400);
+    const url = (name: string) => `${CDN}/v/${name}.jpg?oe=${FUTURE_OE}`;
+    await cache.put(url("a"), body(100), new Headers());
+    await cache.put(url("b"), body(100), new Headers());
+    await cache.put(url("c"), body(100), new Headers());
+    await cache.get(url("a"));
+    await cache.put(url("d"), body(100), new Headers());
+    await cache.put(url("e"), body(100), new Headers());
+
+    expect(await cache.get(url("b"))).toBeNull();
+    expect(await cache.get(url("a"))).not.toBeNull();
+    expect(await cache.get(url("e"))).not.toBeNull();
+    expect((await readdir(directory)).filter((name) => name.endsWith(".bin"))).toHaveLength(4);
+  });
+
+  it("skips bodies that are expired, too large or truncated", async () => {
+    const cache = new MediaCache(directory, 400);
+    const expired = `${CDN}/v/old.jpg?oe=${Math.floor(Date.now() / 1000 - 60).toString(16)}`;
+    await cache.put(expired, body(10), new Headers());
+    await cache.put(`${CDN}/v/big.jpg`, body(150), new Headers());
+    await cache.put(`${CDN}/v/short.jpg`, body(10), new Headers({ "content-length": "20" }));
+
+    expect(await cache.get(expired)).toBeNull();
+    expect(await cache.get(`${CDN}/v/big.jpg`)).toBeNull();
+    expect(await cache.get(`${CDN}/v/short.jpg`)).toBeNull();
+  });
+});
+
+describe("fetchMedia", () => {
+  // Upstream body of `count` 10-byte chunks that records how many were pulled
+  function upstream(count: number) {
+    let pulled = 0;
+    const response = () => {
+      const stream = new ReadableStream<Uint8Array>(
+        {
+          pull(controller) {
+            if (pulled === count) return controller.close();
+            pulled++;
+            controller.enqueue(new Uint8Array(10).fill(pulled));
+          },
+        },
+        { highWaterMark: 0 },
+      );
+      return new Response(stream, { headers: { "content-length": String(count * 10) } });
+    };
+    return { fetchImpl: async () => response(), pulled: () => pulled };
+  }
+
+  it("fills the cache only as fast as the caller reads", async () => {
+    const cache = new MediaCache(directory);
+    setMediaCache(cache);
+    const url = `${CDN}/v/t16/reel.mp4?oh=sig&oe=${FUTURE_OE}`;
+    const source = upstream(50);
+
+    const reader = (await fetchMedia(url, source.fetchImpl)).body!.getReader();
+    await reader.read();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(source.pulled()).toBeLessThanOrEqual(2);
+
+    for (let result = await reader.read(); !result.done; result = await reader.read());
+    expect(source.pulled()).toBe(50);
+    expect(await cache.get(url)).toMatchObject({ size: 500 });
+  });
+
+  it("drops the entry when the caller cancels", async () => {
+    const cache = new MediaCache(directory);
+    setMediaCache(cache);
+    const url = `${CDN}/v/t16/cancelled.mp4?oh=sig&oe=${FUTURE_OE}`;
+
+    const reader = (await fetchMedia(url, upstream(50).fetchImpl)).body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(await cache.get(url)).toBeNull();
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { parseImageDimensions } from "../lib/media";
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function ispe(width: number, height: number): Buffer {
+  const payload = Buffer.alloc(12);
+  payload.writeUInt32BE(width, 4);
+  payload.writeUInt32BE(height, 8);
+  return box("ispe", payload);
+}
+
+function heif(brands: string[], ...properties: Buffer[]): Buffer {
+  const ftyp = box("ftyp", Buffer.from(brands[0]), Buffer.alloc(4), Buffer.from(brands.slice(1).join("")));
+  const meta = box("meta", Buffer.alloc(4), box("hdlr", Buffer.alloc(24)), box("iprp", box("ipco", ...properties)));
+  return Buffer.concat([ftyp, meta, box("mdat", Buffer.alloc(64))]);
+}
+
+function riff(chunk: string, payload: Buffer): Buffer {
+  const header = Buffer.alloc(20);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(payload.length + 12, 4);
+  header.write("WEBP", 8, "ascii");
+  header.write(chunk, 12, "ascii");
+  header.writeUInt32LE(payload.length, 16);
+  return Buffer.concat([header, payload, Buffer.alloc(16)]);
+}
+
+describe("parseImageDimensions", () => {
+  it("reads lossy, lossless and extended WebP", () => {
+    const lossy = Buffer.alloc(10);
+    lossy.set([0x9d, 0x01, 0x2a], 3);
+    lossy.writeUInt16LE(1080, 6);
+    lossy.writeUInt16LE(1350 | 0x4000, 8);
+    expect(parseImageDimensions(riff("VP8 ", lossy))).toEqual({ width: 1080, height: 1350, format: "webp" });
+
+    const lossless = Buffer.alloc(5);
+    lossless[0] = 0x2f;
+    lossless.writeUInt32LE((640 - 1) | ((480 - 1) << 14), 1);
+    expect(parseImageDimensions(riff("VP8L", lossless))).toEqual({ width: 640, height: 480, format: "webp" });
+
+    const extended = Buffer.alloc(10);
+    extended.writeUIntLE(1440 - 1, 4, 3);
+    extended.writeUIntLE(1800 - 1, 7, 3);
+    expect(parseImageDimensions(riff("VP8X", extended))).toEqual({ width: 1440, height: 1800, format: "webp" });
+  });
+
+  it("reads GIF logical screen size", () => {
+    const gif = Buffer.alloc(13);
+    gif.write("GIF89a", 0, "ascii");
+    gif.writeUInt16LE(320, 6);
+    gif.writeUInt16LE(240, 8);
+    expect(parseImageDimensions(gif)).toEqual({ width: 320, height: 240, format: "gif" });
+  });
+
+  it("takes the largest ispe from HEIF and AVIF, told apart by brand", () => {
+    expect(parseImageDimensions(heif(["avif", "mif1", "miaf"], ispe(1080, 1350)))).toEqual({
+      width: 1080,
+      height: 1350,
+      format: "avif",
+    });
+    // Grid images: 512px tiles and a thumbnail, plus the full canvas
+    expect(parseImageDimensions(heif(["heic", "mif1"], ispe(512, 512), ispe(4032, 3024), ispe(320, 240)))).toEqual({
+      width: 4032,
+      height: 3024,
+      format: "heic",
+    });
+  });
+
+  it("finds the ispe when the meta box runs past the probed range", () => {
+    const full = heif(["avif", "mif1"], ispe(1080, 1080), box("pixi", Buffer.alloc(4000)));
+    expect(parseImageDimensions(full.subarray(0, 200))).toEqual({ width: 1080, height: 1080, format: "avif" });
+  });
+
+  it("ignores other ISO-BMFF files", () => {
+    expect(parseImageDimensions(heif(["isom", "mp41"], ispe(1080, 1920)))).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { probeVideoInfo } from "../lib/mp4";
+import type { FetchLike } from "../lib/types";
+
+const VIDEO_URL = "https://scontent.cdninstagram.com/o1/v/t16/f2/m86/clip.mp4?_nc_ht=scontent.cdninstagram.com";
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function mvhd(timescale: number, duration: number): Buffer {
+  const payload = Buffer.alloc(100);
+  payload.writeUInt32BE(timescale, 12);
+  payload.writeUInt32BE(duration, 16);
+  return box("mvhd", payload);
+}
+
+function track(handler: string, width: number, height: number, codec: string): Buffer {
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(width << 16, 76);
+  tkhd.writeUInt32BE(height << 16, 80);
+  const hdlr = Buffer.alloc(24);
+  hdlr.write(handler, 8, "ascii");
+  const stsdHeader = Buffer.alloc(8);
+  stsdHeader.writeUInt32BE(1, 4);
+  const stsd = box("stsd", stsdHeader, box(codec, Buffer.alloc(78)));
+  return box("trak", box("tkhd", tkhd), box("mdia", box("hdlr", hdlr), box("minf", box("stbl", stsd))));
+}
+
+const moov = box(
+  "moov",
+  mvhd(1000, 32_500),
+  track("soun", 0, 0, "mp4a"),
+  track("vide", 1080, 1920, "avc1"),
+);
+const ftyp = box("ftyp", Buffer.from("isom\0\0\0\0isomavc1"));
+
+// Serves byte ranges of an in-memory file the way the CDN does
+function serve(file: Buffer): { fetch: FetchLike; ranges: string[] } {
+  const ranges: string[] = [];
+  const fetch: FetchLike = async (_url, init) => {
+    const range = new Headers(init?.headers).get("range") ?? "";
+    ranges.push(range);
+    const [, start, end] = /bytes=(\d+)-(\d+)/.exec(range) ?? [];
+    const last = Math.min(Number(end), file.length - 1);
+    return new Response(new Uint8Array(file.subarray(Number(start), last + 1)), {
+      status: 206,
+      headers: { "Content-Range": `bytes ${start}-${last}/${file.length}` },
+    });
+  };
+  return { fetch, ranges };
+}
+
+describe("probeVideoInfo", () => {
+  it("reads a faststart file's video track in one request", async () => {
+    const file = Buffer.concat([ftyp, moov, box("mdat", Buffer.alloc(200_000))]);
+    const { fetch, ranges } = serve(file);
+    expect(await probeVideoInfo(VIDEO_URL, fetch)).toEqual({
+      width: 1080,
+      height: 1920,
+      duration: 32.5,
+      codec: "avc1",
+      bitrate: Math.round((file.length * 8) / 32.5),
+    });
+    expect(ranges).toEqual(["bytes=0-65535"]);
+  });
+
+  it("skips over mdat to find a trailing moov", async () => {
+    const file = Buffer.concat([ftyp, box("mdat", Buffer.alloc(300_000)), moov]);
+    const { fetch, ranges } = serve(file);
+    const info = await probeVideoInfo(VIDEO_URL, fetch);
+    expect(info).toMatchObject({ width: 1080, height: 1920, codec: "avc1" });
+    const moovStart = file.length - moov.length;
+    expect(ranges).toEqual([
+      "bytes=0-65535",
+      `bytes=${moovStart}-${moovStart + 15}`,
+      `bytes=${moovStart}-${file.length - 1}`,
+    ]);
+  });
+
+  it("gives up on files that aren't MP4", async () => {
+    const { fetch } = serve(Buffer.from("<html>not a video</html>".padEnd(100)));
+    expect(await probeVideoInfo(VIDEO_URL, fetch)).toBeNull();
+  });
+});
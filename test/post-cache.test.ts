@@ -0,0 +1,107 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ExtractedMedia } from "../lib/instagram";
+import {
+  cachePost,
+  FilePostCacheStore,
+  getCachedPost,
+  MemoryPostCacheStore,
+  setPostCacheStore,
+} from "../lib/post-cache";
+
+const CDN = "https://scontent.cdninstagram.com/v/t51.2885-15";
+const NOW = Date.UTC(2026, 0, 1);
+const MINUTE = 60 * 1000;
+
+// `oe` is the signed URL's expiry in hex seconds
+function post(shortcode: string, oe?: number): ExtractedMedia {
+  const query = oe === undefined ? "" : `?oe=${Math.floor(oe / 1000).toString(16)}`;
+  return {
+    items: [{ type: "image", url: `${CDN}/${shortcode}.jpg${query}`, thumbnail: "", width: 1080, height: 1080, filesize: 1000 }],
+    meta: { type: "post", username: "some.user", shortcode },
+  };
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "post-cache-"));
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  setPostCacheStore(null);
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("post cache", () => {
+  it("evicts the least recently used post from memory", async () => {
+    const store = new MemoryPostCacheStore(2);
+    setPostCacheStore(store);
+
+    await cachePost("A", post("A"));
+    await cachePost("B", post("B"));
+    await getCachedPost("A");
+    await cachePost("C", post("C"));
+
+    expect(await store.get("A")).not.toBeNull();
+    expect(await store.get("B")).toBeNull();
+    expect(await store.get("C")).not.toBeNull();
+  });
+
+  it("round-trips a post through the file store", async () => {
+    setPostCacheStore(new FilePostCacheStore(directory));
+    await cachePost("ABC123", post("ABC123"));
+
+    // A fresh store reads what the last one wrote
+    setPostCacheStore(new FilePostCacheStore(directory));
+    expect(await getCachedPost("ABC123")).toEqual(post("ABC123"));
+    expect(await getCachedPost("OTHER")).toBeNull();
+  });
+
+  it("keeps the file store to its cap, dropping the least recently used post", async () => {
+    const store = new FilePostCacheStore(directory, 2);
+    setPostCacheStore(store);
+
+    await cachePost("A", post("A"));
+    vi.setSystemTime(NOW + MINUTE);
+    await cachePost("B", post("B"));
+    vi.setSystemTime(NOW + 2 * MINUTE);
+    await getCachedPost("A");
+    vi.setSystemTime(NOW + 3 * MINUTE);
+    await cachePost("C", post("C"));
+
+    expect(await readdir(directory)).toHaveLength(2);
+    expect(await store.get("A")).not.toBeNull();
+    expect(await store.get("B")).toBeNull();
+    expect(await store.get("C")).not.toBeNull();
+  });
+
+  it("expires a post a margin before its earliest signed URL does", async () => {
+    const store = new MemoryPostCacheStore();
+    setPostCacheStore(store);
+
+    await cachePost("SOON", post("SOON", NOW + 20 * MINUTE));
+    expect((await store.get("SOON"))?.expiresAt).toBe(NOW + 15 * MINUTE);
+
+    vi.setSystemTime(NOW + 15 * MINUTE);
+    expect(await getCachedPost("SOON")).toBeNull();
+    expect(await store.get("SOON")).toBeNull();
+  });
+
+  it("falls back to the TTL without an oe parameter, and skips URLs about to expire", async () => {
+    vi.stubEnv("POST_CACHE_TTL_MS", String(10 * MINUTE));
+    const store = new MemoryPostCacheStore();
+    setPostCacheStore(store);
+
+    await cachePost("PLAIN", post("PLAIN"));
+    expect((await store.get("PLAIN"))?.expiresAt).toBe(NOW + 10 * MINUTE);
+
+    await cachePost("STALE", post("STALE", NOW + 2 * MINUTE));
+    expect(await store.get("STALE")).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, HEAD } from "../app/api/proxy/route";
+import { MediaCache, setMediaCache } from "../lib/media-cache";
+import { setRateLimitStore } from "../lib/rate-limit";
+
+const httpClient = vi.hoisted(() => vi.fn<(url: string, init?: RequestInit) => Promise<Response>>());
+vi.mock("../lib/http-client", () => ({ httpClient }));
+
+const OE = Math.floor(Date.now() / 1000 + 3600).toString(16);
+const MEDIA_URL = `https://scontent.cdninstagram.com/v/t51.2885-15/1_n.jpg?oh=00_AAA&oe=${OE}`;
+const ETAG = '"v1"';
+const BODY = "0123456789";
+
+function request(method: "GET" | "HEAD", headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`http://localhost/api/proxy?url=${encodeURIComponent(MEDIA_URL)}`, { method, headers });
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "proxy-route-"));
+  setRateLimitStore(null);
+});
+
+afterEach(async () => {
+  setMediaCache(null);
+  httpClient.mockReset();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("GET /api/proxy from the media cache", () => {
+  beforeEach(async () => {
+    const cache = new MediaCache(directory);
+    await cache.put(MEDIA_URL, new Response(BODY).body!, new Headers({ "content-type": "image/jpeg", etag: ETAG }));
+    setMediaCache(cache);
+  });
+
+  it("serves a single byte range", async () => {
+    const res = await GET(request("GET", { range: "bytes=2-5" }));
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 2-5/10");
+    expect(res.headers.get("content-length")).toBe("4");
+    expect(await res.text()).toBe("2345");
+  });
+
+  it("serves a suffix range", async () => {
+    const res = await GET(request("GET", { range: "bytes=-3" }));
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 7-9/10");
+    expect(await res.text()).toBe("789");
+  });
+
+  it("refuses a range past the end with 416", async () => {
+    const res = await GET(request("GET", { range: "bytes=20-" }));
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe("bytes */10");
+  });
+
+  it("sends the whole body when If-Range names another version", async () => {
+    const res = await GET(request("GET", { range: "bytes=2-5", "if-range": '"v0"' }));
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(BODY);
+  });
+
+  it("answers a matching If-None-Match with 304", async () => {
+    const res = await GET(request("GET", { "if-none-match": `W/${ETAG}` }));
+    expect(res.status).toBe(304);
+    expect(res.headers.get("etag")).toBe(ETAG);
+  });
+
+  it("answers HEAD with the headers and no body", async () => {
+    const res = await HEAD(request("HEAD", { range: "bytes=0-3" }));
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 0-3/10");
+    expect(res.headers.get("accept-ranges")).toBe("bytes");
+    expect(res.body).toBeNull();
+  });
+});
+
+describe("GET /api/proxy filling the media cache", () => {
+  beforeEach(() => {
+    setMediaCache(new MediaCache(directory));
+    httpClient.mockImplementation(
+      async () => new Response(BODY, { headers: { "content-type": "image/jpeg", "content-length": "10", etag: ETAG } }),
+    );
+  });
+
+  it("answers the `bytes=0-` a <video> opens with as a range covering the whole file", async () => {
+    const res = await GET(request("GET", { range: "bytes=0-" }));
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe("bytes 0-9/10");
+    expect(res.headers.get("content-length")).toBe("10");
+    expect(res.headers.get("accept-ranges")).toBe("bytes");
+    expect(await res.text()).toBe(BODY);
+  });
+
+  it("answers a request without a range with the whole body", async () => {
+    const res = await GET(request("GET"));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-range")).toBeNull();
+    expect(await res.text()).toBe(BODY);
+  });
+});
+
+describe("GET /api/proxy without a cache", () => {
+  it("forwards range headers upstream and passes a 416 through", async () => {
+    httpClient.mockResolvedValue(new Response(null, { status: 416, headers: { "content-range": "bytes */10" } }));
+
+    const res = await GET(request("GET", { range: "bytes=20-", "if-range": ETAG }));
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe("bytes */10");
+    const headers = new Headers(httpClient.mock.calls[0][1]?.headers);
+    expect(headers.get("range")).toBe("bytes=20-");
+    expect(headers.get("if-range")).toBe(ETAG);
+  });
+
+  it("rejects URLs outside the Instagram CDN", async () => {
+    const res = await GET(new NextRequest("http://localhost/api/proxy?url=https%3A%2F%2Fexample.com%2Fa.jpg"));
+    expect(res.status).toBe(400);
+    expect(httpClient).not.toHaveBeenCalled();
+  });
+});
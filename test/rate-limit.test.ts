@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { enforceRateLimit, getClientKey, MemoryRateLimitStore, setRateLimitStore } from "../lib/rate-limit";
+
+const policy = { capacity: 3, refillPerMinute: 60 };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("allows a burst, then refills one token per interval", async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await store.take("ip:1", 1, policy, 0));
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[3].retryAfterMs).toBe(1000);
+
+    expect((await store.take("ip:1", 1, policy, 1000)).allowed).toBe(true);
+    expect((await store.take("ip:2", 1, policy, 1000)).allowed).toBe(true);
+  });
+});
+
+describe("MemoryRateLimitStore pruning", () => {
+  it("judges each bucket by its own policy", async () => {
+    const store = new MemoryRateLimitStore();
+    const slow = { capacity: 2, refillPerMinute: 1 };
+    const fast = { capacity: 100, refillPerMinute: 6000 };
+    await store.take("proxy:ip:1", 2, slow, 0);
+    // Pruning runs past 10,000 clients; the fast scope would call the slow bucket full after a second
+    for (let i = 0; i <= 10_000; i++) await store.take(`api:ip:${i}`, 1, fast, 1_000);
+    expect((await store.take("proxy:ip:1", 1, slow, 1_000)).allowed).toBe(false);
+  });
+});
+
+describe("getClientKey", () => {
+  it("uses a configured API key over the client IP", () => {
+    vi.stubEnv("RATE_LIMIT_API_KEYS", "other, secret");
+    vi.stubEnv("RATE_LIMIT_TRUSTED_PROXY_HOPS", "1");
+    const keyed = getClientKey(new Headers({ authorization: "Bearer secret", "x-forwarded-for": "203.0.113.7" }));
+    expect(keyed).toMatch(/^key:[0-9a-f]{32}$/);
+    expect(keyed).toBe(getClientKey(new Headers({ "x-api-key": "secret" })));
+    expect(getClientKey(new Headers({ "x-api-key": "made-up", "x-forwarded-for": "203.0.113.7" }))).toBe("ip:203.0.113.7");
+  });
+
+  it("ignores X-Forwarded-For unless proxy hops are configured", () => {
+    expect(getClientKey(new Headers({ "x-forwarded-for": "203.0.113.7" }))).toBe("ip:unknown");
+    expect(getClientKey(new Headers())).toBe("ip:unknown");
+  });
+
+  it("reads the client IP the configured number of proxy hops from the right", () => {
+    vi.stubEnv("RATE_LIMIT_TRUSTED_PROXY_HOPS", "1");
+    expect(getClientKey(new Headers({ "x-forwarded-for": "198.51.100.1, 203.0.113.7" }))).toBe("ip:203.0.113.7");
+    vi.stubEnv("RATE_LIMIT_TRUSTED_PROXY_HOPS", "2");
+    expect(getClientKey(new Headers({ "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.1" }))).toBe("ip:203.0.113.7");
+    expect(getClientKey(new Headers({ "x-forwarded-for": "10.0.0.1" }))).toBe("ip:unknown");
+  });
+});
+
+describe("enforceRateLimit", () => {
+  it("answers 429 with Retry-After in the API error shape", async () => {
+    setRateLimitStore({
+      take: async () => ({ allowed: false, remaining: 0, retryAfterMs: 2500 }),
+    });
+    const res = await enforceRateLimit(new Request("http://localhost/api/preview"), "api");
+    expect(res?.status).toBe(429);
+    expect(res?.headers.get("retry-after")).toBe("3");
+    expect(await res?.json()).toEqual({
+      status: "error",
+      items: [],
+      error: "Too many requests. Try again in 3 seconds.",
+    });
+  });
+
+  it("keeps charging the same bucket when the client makes up keys or forwarded addresses", async () => {
+    vi.stubEnv("RATE_LIMIT_API_CAPACITY", "2");
+    const attempt = (headers: Record<string, string>) =>
+      enforceRateLimit(new Request("http://localhost/api/preview", { headers }), "api");
+
+    expect(await attempt({ "x-forwarded-for": "203.0.113.7" })).toBeNull();
+    expect(await attempt({ "x-api-key": "made-up-1", "x-forwarded-for": "203.0.113.7" })).toBeNull();
+    expect((await attempt({ "x-api-key": "made-up-2", "x-forwarded-for": "203.0.113.7" }))?.status).toBe(429);
+    expect((await attempt({ "x-forwarded-for": "198.51.100.99, 203.0.113.7" }))?.status).toBe(429);
+    expect((await attempt({ authorization: "Bearer made-up-3", "x-forwarded-for": "1.2.3.4, 203.0.113.7" }))?.status).toBe(429);
+    // With no trusted proxy, a whole new forwarded address doesn't buy a bucket either
+    expect((await attempt({ "x-forwarded-for": "198.51.100.50" }))?.status).toBe(429);
+  });
+
+  it("lets requests through when the store fails", async () => {
+    setRateLimitStore({
+      take: async () => {
+        throw new Error("store offline");
+      },
+    });
+    expect(await enforceRateLimit(new Request("http://localhost/api/proxy"), "proxy")).toBeNull();
+  });
+});
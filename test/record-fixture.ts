@@ -0,0 +1,28 @@
+import path from "path";
+import { fetchPostMedia } from "../lib/instagram";
+import { setPostCacheStore } from "../lib/post-cache";
+import { createRecorder } from "./support/fixture";
+
+// Usage: npm run record-fixture -- <post-url> <fixture-name>
+async function main() {
+  const [postUrl, name] = process.argv.slice(2);
+  if (!postUrl || !name) {
+    console.error("Usage: npm run record-fixture -- <post-url> <fixture-name>");
+    process.exit(1);
+  }
+
+  setPostCacheStore(null);
+  const recorder = createRecorder(postUrl);
+  try {
+    const result = await fetchPostMedia(postUrl, { fetch: recorder.fetch });
+    console.log(JSON.stringify(result, null, 2));
+  } catch (err) {
+    console.error(`Extraction failed: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const directory = path.join(__dirname, "fixtures", name);
+  const manifest = await recorder.save(directory);
+  console.log(`Saved ${manifest.responses.length} responses to ${directory}`);
+}
+
+void main();
@@ -0,0 +1,86 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { FetchLike } from "../../lib/types";
+
+/**
+ * Saved upstream responses for one post, stored as a directory holding a
+ * `manifest.json` plus one raw body file per response.
+ */
+
+export interface FixtureResponse {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  bodyFile?: string;
+}
+
+export interface FixtureManifest {
+  postUrl: string;
+  recordedAt: string;
+  responses: FixtureResponse[];
+}
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export async function loadFixture(directory: string): Promise<{ manifest: FixtureManifest; fetch: FetchLike }> {
+  const manifest = JSON.parse(await readFile(path.join(directory, "manifest.json"), "utf8")) as FixtureManifest;
+  const bodies = new Map<FixtureResponse, Buffer>();
+  for (const response of manifest.responses) {
+    if (response.bodyFile) bodies.set(response, await readFile(path.join(directory, response.bodyFile)));
+  }
+
+  // Requests without a saved response get a 404 so strategies fall through
+  // exactly as they would against a live Instagram that refuses them.
+  const replay: FetchLike = async (input, init) => {
+    const method = (init?.method ?? "GET").toUpperCase();
+    const saved = manifest.responses.find((r) => r.method === method && r.url === input);
+    if (!saved) return new Response(null, { status: 404 });
+    const body = method === "HEAD" || NULL_BODY_STATUSES.has(saved.status) ? null : bodies.get(saved) ?? null;
+    return new Response(body ? new Uint8Array(body) : null, { status: saved.status, headers: saved.headers });
+  };
+
+  return { manifest, fetch: replay };
+}
+
+export function createRecorder(postUrl: string, baseFetch: FetchLike = fetch) {
+  const responses: Array<{ response: FixtureResponse; body: Buffer | null }> = [];
+
+  const record: FetchLike = async (input, init) => {
+    const res = await baseFetch(input, init);
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = method === "HEAD" ? null : Buffer.from(await res.clone().arrayBuffer());
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => {
+      if (key === "content-type" || key === "content-length" || key === "location") headers[key] = value;
+    });
+    responses.push({ response: { method, url: input, status: res.status, headers }, body });
+    return res;
+  };
+
+  const save = async (directory: string): Promise<FixtureManifest> => {
+    await mkdir(directory, { recursive: true });
+    const manifest: FixtureManifest = { postUrl, recordedAt: new Date().toISOString(), responses: [] };
+    for (const [index, { response, body }] of responses.entries()) {
+      const entry = { ...response };
+      if (body && body.length > 0) {
+        entry.bodyFile = `${String(index + 1).padStart(3, "0")}.${bodyExtension(response.headers["content-type"])}`;
+        await writeFile(path.join(directory, entry.bodyFile), body);
+      }
+      manifest.responses.push(entry);
+    }
+    await writeFile(path.join(directory, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n", "utf8");
+    return manifest;
+  };
+
+  return { fetch: record, save };
+}
+
+function bodyExtension(contentType = ""): string {
+  if (contentType.includes("json")) return "json";
+  if (contentType.includes("html")) return "html";
+  if (contentType.includes("jpeg")) return "jpg";
+  if (contentType.includes("png")) return "png";
+  if (contentType.includes("mp4")) return "mp4";
+  return "bin";
+}